@@ -19,12 +19,16 @@ import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import * as SplashScreen from 'expo-splash-screen';
 import * as Localization from 'expo-localization';
 import messaging from '@react-native-firebase/messaging';
-import * as Notifications from 'expo-notifications';
 
 import WebViewContainer, { WebViewContainerRef } from './src/components/WebViewContainer';
 import { useDeepLink } from './src/hooks/useDeepLink';
 import { usePushNotification } from './src/hooks/usePushNotification';
 import { initKakaoSDK } from './src/services/kakaoShareService';
+import { loadAuthState, holdDeepLinkIfNeeded, onDeepLinkReplay } from './src/services/deepLinkAuthService';
+import { recordDeepLink } from './src/services/deepLinkHistoryService';
+import { configureNotificationHandler, setCurrentRoute } from './src/services/notificationService';
+import { DeepLinkReceivedEvent, DeepLinkSource } from './src/bridge/protocol';
+import { sanitizeWebViewPath } from './src/utils/deepLinkRoutes';
 import AppExitSnackbar from './src/components/AppExitSnackbar';
 
 // Keep the splash screen visible while we fetch resources
@@ -32,14 +36,8 @@ SplashScreen.preventAutoHideAsync().catch(() => {
   /* reloading the app might trigger some race conditions, ignore them */
 });
 
-// Expo Notifications 설정 (포그라운드 알림 표시)
-Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-  }),
-});
+// 알림 표시 설정 (포그라운드 알림 표시 여부는 notificationService에서 결정)
+configureNotificationHandler();
 
 // WebView URL
 const WEBVIEW_URL = process.env.EXPO_PUBLIC_WEBVIEW_URL || 'https://camter-client.vercel.app/';
@@ -47,6 +45,7 @@ const WEBVIEW_URL = process.env.EXPO_PUBLIC_WEBVIEW_URL || 'https://camter-clien
 export default function App() {
   const webViewRef = useRef<WebViewContainerRef>(null);
   const [isFirstLoad, setIsFirstLoad] = useState(true); // 최초 로딩만 표시
+  const [isSplashHidden, setIsSplashHidden] = useState(false);
   const [canGoBack, setCanGoBack] = useState(false);
   const [currentUrl, setCurrentUrl] = useState(WEBVIEW_URL);
   const [lastAppUrl, setLastAppUrl] = useState(WEBVIEW_URL);
@@ -61,11 +60,70 @@ export default function App() {
 
   // 딥링크 훅
   const {
+    url: deepLinkUrl,
     webViewPath: deepLinkPath,
+    source: deepLinkSource,
     isReady: isDeepLinkReady,
     clearDeepLink,
   } = useDeepLink();
 
+  // 딥링크 이동 가능 여부 (WebView 최초 로딩 완료 + 스플래시 숨김)
+  const isNavigationReadyRef = useRef(false);
+  // 이동 가능해지기 전에 받은 딥링크 (콜드 스타트 링크/푸시 탭, 최신 1개만 유지)
+  const pendingDeepLink = useRef<{
+    link: DeepLinkReceivedEvent;
+    source: DeepLinkSource;
+    requiresAuth: boolean;
+  } | null>(null);
+
+  /**
+   * 딥링크 즉시 이동 (로그아웃 상태의 로그인 필요 딥링크는 이동하지 않고 로그인 후 재실행까지 보류)
+   * 처리 결과는 딥링크 기록에 저장
+   */
+  const openDeepLink = useCallback((
+    link: DeepLinkReceivedEvent,
+    source: DeepLinkSource,
+    requiresAuth: boolean
+  ) => {
+    if (sanitizeWebViewPath(link.path) === null) {
+      console.warn('[App] Rejected deep link path:', link.path);
+      recordDeepLink(link.url, source, link.path, 'rejected');
+      return;
+    }
+
+    // 보류된 딥링크는 웹에 held로 알려 로그인 화면을 띄우게 하고, notifyLoginSuccess 후 한 번만 이동
+    if (holdDeepLinkIfNeeded(link, requiresAuth)) {
+      webViewRef.current?.emitToWeb('deepLinkReceived', { ...link, held: true });
+      recordDeepLink(link.url, source, link.path, 'held');
+      return;
+    }
+
+    const navigated = webViewRef.current?.navigateTo(link.path) ?? false;
+    if (!navigated) {
+      recordDeepLink(link.url, source, link.path, 'rejected');
+      return;
+    }
+
+    webViewRef.current?.emitToWeb('deepLinkReceived', link);
+    recordDeepLink(link.url, source, link.path, 'navigated');
+  }, []);
+
+  /**
+   * 딥링크 이동 (WebView 최초 로딩 및 스플래시 숨김 전이면 대기 후 이동)
+   */
+  const navigateToDeepLink = useCallback((
+    link: DeepLinkReceivedEvent,
+    source: DeepLinkSource,
+    requiresAuth = false
+  ) => {
+    if (!isNavigationReadyRef.current) {
+      console.log('[App] WebView not ready, deferring deep link:', link.path);
+      pendingDeepLink.current = { link, source, requiresAuth };
+      return;
+    }
+    openDeepLink(link, source, requiresAuth);
+  }, [openDeepLink]);
+
   // 푸시 알림 훅
   const {
     fcmToken,
@@ -73,9 +131,12 @@ export default function App() {
     handleLoginSuccess,
     handleLogout,
   } = usePushNotification({
-    onDeepLink: (path) => {
+    onNotificationReceived: (notification) => {
+      webViewRef.current?.emitToWeb('notificationReceived', notification);
+    },
+    onDeepLink: (path, requiresAuth) => {
       console.log('[App] Push notification deep link:', path);
-      webViewRef.current?.navigateTo(path);
+      navigateToDeepLink({ url: null, path, source: 'push' }, 'push', requiresAuth);
     },
   });
 
@@ -97,7 +158,11 @@ export default function App() {
         // 카카오 SDK 초기화
         await initKakaoSDK();
 
-        // Firebase Messaging 권한 요청 및 리스너 설정
+        // 로그인 상태 로드 (로그인 필요 딥링크 보류 판단용)
+        await loadAuthState();
+
+        // Firebase Messaging 권한 요청
+        // (알림 탭 리스너는 백그라운드/종료 상태 포함 usePushNotification에서 설정)
         const authStatus = await messaging().requestPermission();
         const enabled =
           authStatus === messaging.AuthorizationStatus.AUTHORIZED ||
@@ -107,35 +172,6 @@ export default function App() {
           console.log('[App] Firebase messaging permission granted:', authStatus);
         }
 
-        // 포그라운드 메시지 리스너
-        const unsubscribeForeground = messaging().onMessage(async remoteMessage => {
-          console.log('[App] FCM Foreground message received:', JSON.stringify(remoteMessage));
-
-          // Expo Notifications로 시스템 알림 표시
-          await Notifications.scheduleNotificationAsync({
-            content: {
-              title: remoteMessage.notification?.title || '알림',
-              body: remoteMessage.notification?.body || '',
-              data: remoteMessage.data,
-            },
-            trigger: null,
-          });
-        });
-
-        // 백그라운드/종료 상태에서 알림 탭 시
-        messaging().onNotificationOpenedApp(remoteMessage => {
-          console.log('[App] FCM Notification opened app:', remoteMessage);
-        });
-
-        // 앱이 종료된 상태에서 알림으로 열렸을 때
-        messaging()
-          .getInitialNotification()
-          .then(remoteMessage => {
-            if (remoteMessage) {
-              console.log('[App] FCM Initial notification:', remoteMessage);
-            }
-          });
-
       } catch (e) {
         console.warn('[App] Prepare error:', e);
       } finally {
@@ -151,9 +187,25 @@ export default function App() {
   const onLayoutRootView = useCallback(async () => {
     if (isAppReady && isDeepLinkReady && isPushInitialized) {
       await SplashScreen.hideAsync();
+      setIsSplashHidden(true);
     }
   }, [isAppReady, isDeepLinkReady, isPushInitialized]);
 
+  /**
+   * WebView 최초 로딩 완료 + 스플래시 숨김 후 대기 중인 딥링크 이동
+   */
+  useEffect(() => {
+    if (!isSplashHidden || isFirstLoad || isNavigationReadyRef.current) return;
+
+    isNavigationReadyRef.current = true;
+    const pending = pendingDeepLink.current;
+    pendingDeepLink.current = null;
+    if (pending) {
+      console.log('[App] Opening deferred deep link:', pending.link.path);
+      openDeepLink(pending.link, pending.source, pending.requiresAuth);
+    }
+  }, [isSplashHidden, isFirstLoad, openDeepLink]);
+
   // 카카오 SDK 초기화 (useEffect merged above)
 
   /**
@@ -162,10 +214,21 @@ export default function App() {
   useEffect(() => {
     if (deepLinkPath && isDeepLinkReady) {
       console.log('[App] Navigating to deep link path:', deepLinkPath);
-      webViewRef.current?.navigateTo(deepLinkPath);
+      navigateToDeepLink({ url: deepLinkUrl, path: deepLinkPath, source: 'link' }, deepLinkSource || 'warm');
       clearDeepLink();
     }
-  }, [deepLinkPath, isDeepLinkReady, clearDeepLink]);
+  }, [deepLinkUrl, deepLinkPath, deepLinkSource, isDeepLinkReady, clearDeepLink, navigateToDeepLink]);
+
+  /**
+   * 로그인 후 보류 딥링크 재실행 (notifyLoginSuccess)
+   */
+  useEffect(() => {
+    return onDeepLinkReplay((link) => {
+      console.log('[App] Replaying deep link after login:', link.path);
+      webViewRef.current?.emitToWeb('deepLinkReceived', { ...link, replayed: true });
+      webViewRef.current?.navigateTo(link.path);
+    });
+  }, []);
 
   /**
    * Android 뒤로가기 버튼 처리
@@ -191,7 +254,7 @@ export default function App() {
           webViewRef.current?.goBack();
         } else if (lastAppUrl) {
           console.log('[App] Back pressed on payment URL - navigating to last app URL');
-          const script = `window.location.href='${lastAppUrl}'; true;`;
+          const script = `window.location.href = ${JSON.stringify(lastAppUrl)}; true;`;
           webViewRef.current?.injectJavaScript(script);
         }
         return true;
@@ -242,6 +305,8 @@ export default function App() {
    */
   const handleNavigationStateChange = useCallback((navState: { url: string; title?: string; canGoBack?: boolean }) => {
     setCurrentUrl(navState.url);
+    // 보고 있는 채팅방 알림 억제용
+    setCurrentRoute(navState.url);
     // 앱 도메인 내 URL을 기억해 결제창 등 외부 페이지에서 복귀 시 사용
     if (navState.url.startsWith(WEBVIEW_URL)) {
       setLastAppUrl(navState.url);
@@ -309,7 +374,6 @@ export default function App() {
         < WebViewContainer
           ref={webViewRef}
           uri={WEBVIEW_URL}
-          deepLinkPath={deepLinkPath || undefined}
           onNavigationStateChange={handleNavigationStateChange}
           onLoadEnd={handleLoadEnd}
           onError={handleError}
@@ -1,6 +1,12 @@
 import { registerRootComponent } from 'expo';
+import messaging from '@react-native-firebase/messaging';
 
 import App from './App';
+import { addBackgroundMessageToInbox } from './src/services/notificationInboxService';
+
+// 백그라운드/종료 상태에서 받은 FCM 메시지를 알림 보관함에 저장
+// 앱 컴포넌트 없이 헤드리스로 실행되므로 registerRootComponent 전에 등록
+messaging().setBackgroundMessageHandler(addBackgroundMessageToInbox);
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
@@ -0,0 +1,119 @@
+/**
+ * deepLinkRoutes 테스트 - WebView 이동 경로 검증 (sanitizeWebViewPath, getUniversalLinkPath)
+ *
+ * 사용법:
+ *   npm test
+ */
+
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { createRequire } = require('module');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+const ROUTES_PATH = path.join(ROOT, 'src/utils/deepLinkRoutes.ts');
+const WEB_APP_ROUTES_PATH = path.join(ROOT, 'src/config/webAppRoutes.json');
+
+// TS 모듈을 CommonJS로 트랜스파일 후 로드 (상대 경로 import는 해당 파일 기준)
+const loadTsModule = (filePath) => {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: filePath,
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', outputText)(module, module.exports, createRequire(filePath));
+  return module.exports;
+};
+
+const {
+  DEEP_LINK_ROUTES,
+  sanitizeWebViewPath,
+  buildRoutePath,
+  getUniversalLinkPath,
+  isWebAppPath,
+} = loadTsModule(ROUTES_PATH);
+const webAppRoutes = require(WEB_APP_ROUTES_PATH);
+
+test('라우트 테이블의 모든 경로 허용', () => {
+  DEEP_LINK_ROUTES.forEach((route) => {
+    const routePath = buildRoutePath({ [route.param]: '123' });
+    assert.strictEqual(sanitizeWebViewPath(routePath), route.path.replace(':id', '123'));
+  });
+});
+
+test('웹 라우트 설정의 모든 경로와 하위 경로 허용', () => {
+  webAppRoutes.pathPrefixes.forEach((prefix) => {
+    assert.strictEqual(sanitizeWebViewPath(prefix), prefix);
+    assert.strictEqual(sanitizeWebViewPath(`${prefix}/detail?tab=1#top`), `${prefix}/detail?tab=1#top`);
+  });
+  assert.strictEqual(sanitizeWebViewPath('/'), '/');
+  assert.strictEqual(sanitizeWebViewPath('/?utm_source=kakao'), '/?utm_source=kakao');
+});
+
+test('따옴표/특수 문자는 퍼센트 인코딩', () => {
+  assert.strictEqual(
+    sanitizeWebViewPath("/oauth/callback?code=a';alert(document.cookie);'"),
+    '/oauth/callback?code=a%27;alert(document.cookie);%27'
+  );
+  assert.strictEqual(sanitizeWebViewPath('/search?q="><script>'), '/search?q=%22%3E%3Cscript%3E');
+  assert.strictEqual(sanitizeWebViewPath('/search?q=`${x}`'), '/search?q=%60$%7Bx%7D%60');
+  assert.strictEqual(sanitizeWebViewPath('/search?q=텐트'), '/search?q=%ED%85%90%ED%8A%B8');
+});
+
+test('javascript:/절대 URL/프로토콜 상대 경로 거부', () => {
+  [
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    ' javascript:alert(1)',
+    'https://evil.example/product/1',
+    '//evil.example/product/1',
+    '/\\evil.example',
+    '/javascript:alert(1)',
+  ].forEach((input) => {
+    assert.strictEqual(sanitizeWebViewPath(input), null, input);
+  });
+});
+
+test('상위 경로/제어 문자/웹앱 외 경로 거부', () => {
+  [
+    '/product/../../etc',
+    '/./product/1',
+    '/product/1\nalert(1)',
+    '/product/1\u0000',
+    '/unknown/path',
+    '',
+    null,
+    undefined,
+  ].forEach((input) => {
+    assert.strictEqual(sanitizeWebViewPath(input), null, String(input));
+  });
+});
+
+test('유니버설 링크는 호스트만 제거하고 쿼리·fragment 유지', () => {
+  const path = getUniversalLinkPath('https://camter.co.kr/search?q=텐트#result');
+  assert.strictEqual(path, '/search?q=텐트#result');
+  assert.strictEqual(sanitizeWebViewPath(path), '/search?q=%ED%85%90%ED%8A%B8#result');
+  assert.strictEqual(getUniversalLinkPath('https://WWW.camter.co.kr?productId=1'), '/?productId=1');
+  assert.strictEqual(getUniversalLinkPath('https://camter-client.vercel.app'), '/');
+});
+
+test('camter 호스트가 아닌 https 링크는 유니버설 링크 아님', () => {
+  ['https://evil.example/search', 'https://camter.co.kr.evil.example/search', 'http://camter.co.kr/search'].forEach(
+    (url) => {
+      assert.strictEqual(getUniversalLinkPath(url), null, url);
+    }
+  );
+});
+
+test('웹앱 외 유니버설 링크 경로 판별 (인앱 브라우저로 열기)', () => {
+  assert.strictEqual(isWebAppPath(getUniversalLinkPath('https://camter.co.kr/search?q=a')), true);
+  assert.strictEqual(isWebAppPath(getUniversalLinkPath('https://camter.co.kr/')), true);
+  assert.strictEqual(isWebAppPath(getUniversalLinkPath('https://camter.co.kr/terms.html')), false);
+});
@@ -0,0 +1,137 @@
+/**
+ * window.NativeBridge 타입 선언 생성 스크립트
+ * src/bridge/protocol.ts(타입)와 src/bridge/methods.ts(메서드 테이블)로 웹용 선언 파일을 생성합니다.
+ *
+ * 사용법:
+ *   npm run bridge:types          # types/native-bridge.d.ts 생성
+ *   npm run bridge:types -- --check  # 선언 파일이 최신인지 확인 (다르면 exit 1)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+const PROTOCOL_PATH = path.join(ROOT, 'src/bridge/protocol.ts');
+const METHODS_PATH = path.join(ROOT, 'src/bridge/methods.ts');
+const OUTPUT_PATH = path.join(ROOT, 'types/native-bridge.d.ts');
+
+// TS 모듈을 CommonJS로 트랜스파일 후 로드 (type import만 있는 파일 전용)
+const loadTsModule = (filePath) => {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+    fileName: filePath,
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', outputText)(module, module.exports, require);
+  return module.exports;
+};
+
+// protocol.ts 타입 선언
+const generateProtocolDeclarations = () => {
+  const source = fs.readFileSync(PROTOCOL_PATH, 'utf8');
+  const { outputText, diagnostics } = ts.transpileDeclaration(source, {
+    fileName: PROTOCOL_PATH,
+    reportDiagnostics: true,
+    compilerOptions: { strict: true },
+  });
+  if (diagnostics && diagnostics.length > 0) {
+    const messages = diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+    throw new Error(`protocol.ts declaration error:\n${messages.join('\n')}`);
+  }
+  return outputText.trim();
+};
+
+// 메서드 테이블 → NativeBridge 메서드 선언
+const generateMethodDeclaration = (action, spec) => {
+  const lines = [`  /** ${spec.description} */`];
+
+  if (spec.custom) {
+    lines.push(`  ${spec.custom}`);
+    return lines.join('\n');
+  }
+
+  const params = spec.params.map((param) => `${param.name}${param.optional ? '?' : ''}: ${param.type}`);
+  if (spec.mode === 'request') {
+    const optionsType = spec.options ? `${spec.options.type} & BridgeCallOptions` : 'BridgeCallOptions';
+    params.push(`options?: ${optionsType}`);
+  }
+
+  const returnType = spec.mode === 'request' ? `Promise<BridgeResponsePayload<'${action}'>>` : 'void';
+  lines.push(`  ${action}(${params.join(', ')}): ${returnType};`);
+  return lines.join('\n');
+};
+
+const generate = () => {
+  const { BRIDGE_METHODS } = loadTsModule(METHODS_PATH);
+
+  const methods = Object.keys(BRIDGE_METHODS)
+    .filter((action) => BRIDGE_METHODS[action])
+    .map((action) => generateMethodDeclaration(action, BRIDGE_METHODS[action]));
+
+  return `// 자동 생성 파일 - 직접 수정하지 마세요.
+// 생성: npm run bridge:types (src/bridge/protocol.ts, src/bridge/methods.ts)
+
+${generateProtocolDeclarations()}
+
+// 요청 메서드 공통 호출 옵션
+export interface BridgeCallOptions {
+  /** 응답 대기 시간 (초과 시 E_TIMEOUT으로 reject) */
+  timeoutMs?: number;
+  /**
+   * abort 시 E_CANCELLED로 reject
+   * 이미 열린 네이티브 피커/권한 팝업은 닫히지 않으며, 사용자가 선택한 결과만 폐기됨
+   */
+  signal?: AbortSignal;
+}
+
+// 요청 실패 에러 (code는 BridgeErrorCode 참고)
+export interface NativeBridgeError extends Error {
+  code: BridgeErrorCode;
+}
+
+export interface NativeBridge {
+  /** 브릿지 프로토콜 버전 */
+  readonly protocolVersion: number;
+  /** 레거시 메시지 전송 (requestId가 없으면 타입 기반 응답 promise 반환) */
+  postMessage(message: string): Promise<unknown> | undefined;
+  /** 네이티브 이벤트 구독 (해제 함수 반환) */
+  on<E extends BridgeEventName>(event: E, listener: (payload: BridgeEventMap[E]) => void): () => void;
+  /** 네이티브 이벤트 구독 해제 */
+  off<E extends BridgeEventName>(event: E, listener: (payload: BridgeEventMap[E]) => void): void;
+${methods.join('\n')}
+}
+
+declare global {
+  interface Window {
+    NativeBridge?: NativeBridge;
+    FlutterBridge?: NativeBridge;
+    NativeBridgeError?: new (code: BridgeErrorCode, message: string) => NativeBridgeError;
+    isRNWebView?: boolean;
+    isFlutterWebView?: boolean;
+  }
+}
+`;
+};
+
+try {
+  const output = generate();
+  const check = process.argv.includes('--check');
+
+  if (check) {
+    const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '';
+    if (current !== output) {
+      console.error('types/native-bridge.d.ts is out of date. Run: npm run bridge:types');
+      process.exit(1);
+    }
+    console.log('types/native-bridge.d.ts is up to date.');
+  } else {
+    fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+    fs.writeFileSync(OUTPUT_PATH, output, 'utf8');
+    console.log('Generated', path.relative(ROOT, OUTPUT_PATH));
+  }
+} catch (error) {
+  console.error('Error generating bridge types:', error);
+  process.exit(1);
+}
@@ -0,0 +1,22 @@
+/**
+ * cancelRequest - 진행 중인 요청 취소 (웹 타임아웃/AbortSignal)
+ * 네이티브 피커는 프로그래밍 방식으로 닫을 수 없으므로,
+ * 취소된 요청의 결과는 폐기되고 웹으로 응답하지 않음
+ */
+
+import { defineBridgeAction, cancelBridgeRequest } from '../registry';
+
+export default defineBridgeAction({
+  name: 'cancelRequest',
+  origins: 'trusted',
+  validate: (message) => {
+    const requestId = (message.data as { requestId?: string } | undefined)?.requestId;
+    if (!requestId) {
+      throw new Error('requestId is required');
+    }
+    return { requestId };
+  },
+  handle: async ({ requestId }) => ({
+    cancelled: cancelBridgeRequest(requestId),
+  }),
+});
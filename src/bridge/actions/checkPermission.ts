@@ -0,0 +1,23 @@
+/**
+ * checkPermission - 권한 확인 (요청 팝업 없음)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeMessage, CheckPermissionRequest, PermissionType } from '../protocol';
+import { checkPermission, PERMISSION_TYPES } from '../../services/permissionService';
+
+// payload 검증 (requestPermission과 공용, 웹 버전에 따라 type 또는 permissionType 사용)
+export const validatePermissionType = (message: BridgeMessage): { permissionType: PermissionType } => {
+  const data = message.data as CheckPermissionRequest | undefined;
+  const permissionType = data?.permissionType || data?.type;
+  if (!permissionType || !PERMISSION_TYPES.includes(permissionType)) {
+    throw new Error(`permissionType is required (${PERMISSION_TYPES.join(', ')})`);
+  }
+  return { permissionType };
+};
+
+export default defineBridgeAction({
+  name: 'checkPermission',
+  validate: validatePermissionType,
+  handle: ({ permissionType }) => checkPermission(permissionType!),
+});
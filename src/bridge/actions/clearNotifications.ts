@@ -0,0 +1,15 @@
+/**
+ * clearNotifications - 알림 보관함 삭제
+ * ids를 생략하면 전체 삭제
+ */
+
+import { defineBridgeAction } from '../registry';
+import { NotificationIdsRequest } from '../protocol';
+import { clearNotifications } from '../../services/notificationInboxService';
+import { validateNotificationIds } from './markRead';
+
+export default defineBridgeAction({
+  name: 'clearNotifications',
+  validate: (message) => validateNotificationIds((message.data || {}) as NotificationIdsRequest),
+  handle: async ({ ids }) => ({ unreadCount: await clearNotifications(ids) }),
+});
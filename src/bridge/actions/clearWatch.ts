@@ -0,0 +1,18 @@
+/**
+ * clearWatch - 위치 추적 중지
+ */
+
+import { defineBridgeAction } from '../registry';
+import { clearWatch } from '../../services/locationService';
+
+export default defineBridgeAction({
+  name: 'clearWatch',
+  validate: (message) => {
+    const watchId = (message.data as { watchId?: string } | undefined)?.watchId;
+    if (!watchId) {
+      throw new Error('watchId is required');
+    }
+    return { watchId };
+  },
+  handle: async ({ watchId }) => ({ cleared: clearWatch(watchId) }),
+});
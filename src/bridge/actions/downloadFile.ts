@@ -0,0 +1,47 @@
+/**
+ * downloadFile - 파일 다운로드
+ * 진행률은 downloadProgress 이벤트로 웹에 전달
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { DownloadFileRequest } from '../protocol';
+import { downloadFile } from '../../services/downloadService';
+
+// 진행률 이벤트 최소 간격 (ms)
+const PROGRESS_INTERVAL_MS = 250;
+
+export default defineBridgeAction({
+  name: 'downloadFile',
+  validate: (message) => {
+    const data = message.data as DownloadFileRequest | undefined;
+    if (!data?.url || !data.fileName) {
+      throw new Error('url and fileName are required');
+    }
+    return { url: data.url, fileName: data.fileName };
+  },
+  handle: async ({ url, fileName }, { emitToWeb }) => {
+    let lastEmittedAt = 0;
+
+    const success = await downloadFile(url, fileName, ({ loaded, total }) => {
+      // 진행률 이벤트는 최대 PROGRESS_INTERVAL_MS 간격으로 전송 (완료 시점은 항상 전송)
+      const now = Date.now();
+      if (loaded < total && now - lastEmittedAt < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastEmittedAt = now;
+
+      emitToWeb('downloadProgress', {
+        url,
+        fileName,
+        loaded,
+        total,
+        progress: total > 0 ? loaded / total : -1,
+      });
+    });
+    if (!success) {
+      throw new BridgeError('E_INTERNAL', 'Download failed');
+    }
+    return undefined;
+  },
+});
@@ -0,0 +1,21 @@
+/**
+ * getCapabilities - 앱 기능 정보 조회
+ * 웹은 이 정보로 설치된 앱 빌드가 지원하는 기능을 판단
+ */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+
+import { defineBridgeAction, getRegisteredBridgeActions } from '../registry';
+import { BRIDGE_PROTOCOL_VERSION } from '../protocol';
+
+export default defineBridgeAction({
+  name: 'getCapabilities',
+  origins: 'trusted',
+  handle: async () => ({
+    platform: Platform.OS,
+    appVersion: Constants.expoConfig?.version || 'unknown',
+    protocolVersion: BRIDGE_PROTOCOL_VERSION,
+    actions: getRegisteredBridgeActions(),
+  }),
+});
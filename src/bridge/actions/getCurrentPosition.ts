@@ -0,0 +1,36 @@
+/**
+ * getCurrentPosition - 현재 위치 조회
+ * 위치 권한이 없으면 요청 후 조회, maxAgeMs 이내의 마지막 위치는 캐시로 응답
+ */
+
+import { defineBridgeAction } from '../registry';
+import { GetCurrentPositionRequest } from '../protocol';
+import { getCurrentPosition } from '../../services/locationService';
+
+// 위치 옵션 검증 (watchPosition과 공용)
+export const ACCURACY_LEVELS = ['low', 'balanced', 'high'];
+
+export const isNonNegativeNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+};
+
+export default defineBridgeAction({
+  name: 'getCurrentPosition',
+  validate: (message) => {
+    const data = (message.data || {}) as GetCurrentPositionRequest;
+    if (data.accuracy !== undefined && !ACCURACY_LEVELS.includes(data.accuracy)) {
+      throw new Error('accuracy must be low, balanced or high');
+    }
+    if (data.timeoutMs !== undefined && !(isNonNegativeNumber(data.timeoutMs) && data.timeoutMs > 0)) {
+      throw new Error('timeoutMs must be a positive number');
+    }
+    if (data.maxAgeMs !== undefined && !isNonNegativeNumber(data.maxAgeMs)) {
+      throw new Error('maxAgeMs must be a non-negative number');
+    }
+    return { accuracy: data.accuracy, timeoutMs: data.timeoutMs, maxAgeMs: data.maxAgeMs };
+  },
+  handle: async (options) => {
+    console.log('[Bridge] getCurrentPosition - options:', JSON.stringify(options));
+    return getCurrentPosition(options);
+  },
+});
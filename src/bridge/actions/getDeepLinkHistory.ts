@@ -0,0 +1,22 @@
+/**
+ * getDeepLinkHistory - 딥링크 수신 기록 조회
+ * 수신 경로(cold/warm/push/kakao), 시각, 이동 경로, 처리 결과, utm 파라미터를 최신순으로 반환
+ */
+
+import { defineBridgeAction } from '../registry';
+import { GetDeepLinkHistoryRequest } from '../protocol';
+import { getDeepLinkHistory } from '../../services/deepLinkHistoryService';
+import { isNonNegativeNumber } from './getCurrentPosition';
+
+export default defineBridgeAction({
+  name: 'getDeepLinkHistory',
+  validate: (message) => {
+    const data = (message.data || {}) as GetDeepLinkHistoryRequest;
+    if ((data.limit !== undefined && !isNonNegativeNumber(data.limit)) ||
+      (data.since !== undefined && !isNonNegativeNumber(data.since))) {
+      throw new Error('limit and since must be non-negative numbers');
+    }
+    return { limit: data.limit, since: data.since };
+  },
+  handle: async (options) => ({ entries: await getDeepLinkHistory(options) }),
+});
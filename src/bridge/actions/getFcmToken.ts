@@ -0,0 +1,30 @@
+/**
+ * getFcmToken - FCM 토큰 요청
+ * 토큰을 받지 못하면 원인(알림 권한, 시뮬레이터)에 맞는 에러 코드로 실패
+ */
+
+import * as Device from 'expo-device';
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { getFcmToken } from '../../services/fcmService';
+import { checkPermission, createPermissionError } from '../../services/permissionService';
+
+export default defineBridgeAction({
+  name: 'getFcmToken',
+  handle: async () => {
+    const token = await getFcmToken();
+    if (token) {
+      return token;
+    }
+
+    if (!Device.isDevice) {
+      throw new BridgeError('E_UNSUPPORTED', 'Push token requires a physical device');
+    }
+    const permission = await checkPermission('notifications');
+    if (!permission.granted) {
+      throw createPermissionError('notifications', permission);
+    }
+    throw new BridgeError('E_INTERNAL', 'FCM token not available');
+  },
+});
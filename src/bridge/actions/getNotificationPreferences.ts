@@ -0,0 +1,12 @@
+/**
+ * getNotificationPreferences - 카테고리별 알림 수신 설정 조회
+ * 웹 알림 설정 화면용 (Android 시스템 설정에서 꺼진 채널은 systemBlocked)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { getNotificationPreferences } from '../../services/notificationPreferenceService';
+
+export default defineBridgeAction({
+  name: 'getNotificationPreferences',
+  handle: async () => ({ categories: await getNotificationPreferences() }),
+});
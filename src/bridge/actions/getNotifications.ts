@@ -0,0 +1,24 @@
+/**
+ * getNotifications - 알림 보관함 조회
+ * 수신한 알림을 최신순으로 반환 (읽음 여부, 카테고리 포함)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { GetNotificationsRequest } from '../protocol';
+import { getNotifications } from '../../services/notificationInboxService';
+import { isNonNegativeNumber } from './getCurrentPosition';
+
+export default defineBridgeAction({
+  name: 'getNotifications',
+  validate: (message) => {
+    const data = (message.data || {}) as GetNotificationsRequest;
+    if (data.unreadOnly !== undefined && typeof data.unreadOnly !== 'boolean') {
+      throw new Error('unreadOnly must be a boolean');
+    }
+    if (data.limit !== undefined && !isNonNegativeNumber(data.limit)) {
+      throw new Error('limit must be a non-negative number');
+    }
+    return { unreadOnly: data.unreadOnly, limit: data.limit };
+  },
+  handle: async (options) => getNotifications(options),
+});
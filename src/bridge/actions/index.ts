@@ -0,0 +1,68 @@
+/**
+ * 브릿지 액션 목록
+ * 새 네이티브 기능은 이 디렉토리에 액션 모듈을 추가하고 여기에 등록합니다.
+ */
+
+import { AnyBridgeActionHandler } from '../registry';
+
+import showImagePicker from './showImagePicker';
+import pickImage from './pickImage';
+import pickImageFromCamera from './pickImageFromCamera';
+import pickImageFromGallery from './pickImageFromGallery';
+import pickVideo from './pickVideo';
+import checkPermission from './checkPermission';
+import requestPermission from './requestPermission';
+import openAppSettings from './openAppSettings';
+import getCurrentPosition from './getCurrentPosition';
+import watchPosition from './watchPosition';
+import clearWatch from './clearWatch';
+import getFcmToken from './getFcmToken';
+import notifyLoginSuccess from './notifyLoginSuccess';
+import notifyLogout from './notifyLogout';
+import downloadFile from './downloadFile';
+import openExternalLink from './openExternalLink';
+import shareContent from './shareContent';
+import shareKakao from './shareKakao';
+import getCapabilities from './getCapabilities';
+import cancelRequest from './cancelRequest';
+import uploadFile from './uploadFile';
+import readFileChunk from './readFileChunk';
+import releaseFile from './releaseFile';
+import getDeepLinkHistory from './getDeepLinkHistory';
+import getNotificationPreferences from './getNotificationPreferences';
+import setNotificationPreference from './setNotificationPreference';
+import getNotifications from './getNotifications';
+import markRead from './markRead';
+import clearNotifications from './clearNotifications';
+
+export const bridgeActions: AnyBridgeActionHandler[] = [
+  showImagePicker,
+  pickImage,
+  pickImageFromCamera,
+  pickImageFromGallery,
+  pickVideo,
+  checkPermission,
+  requestPermission,
+  openAppSettings,
+  getCurrentPosition,
+  watchPosition,
+  clearWatch,
+  getFcmToken,
+  notifyLoginSuccess,
+  notifyLogout,
+  downloadFile,
+  openExternalLink,
+  shareContent,
+  shareKakao,
+  getCapabilities,
+  cancelRequest,
+  uploadFile,
+  readFileChunk,
+  releaseFile,
+  getDeepLinkHistory,
+  getNotificationPreferences,
+  setNotificationPreference,
+  getNotifications,
+  markRead,
+  clearNotifications,
+];
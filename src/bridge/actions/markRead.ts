@@ -0,0 +1,23 @@
+/**
+ * markRead - 알림 읽음 처리
+ * ids를 생략하면 전체 읽음, 앱 배지는 읽지 않은 알림 수로 갱신
+ */
+
+import { defineBridgeAction } from '../registry';
+import { NotificationIdsRequest } from '../protocol';
+import { markRead } from '../../services/notificationInboxService';
+
+// 알림 ID 목록 검증 (clearNotifications와 공용)
+export const validateNotificationIds = (data: NotificationIdsRequest): NotificationIdsRequest => {
+  if (data.ids !== undefined &&
+    (!Array.isArray(data.ids) || data.ids.some((id) => typeof id !== 'string'))) {
+    throw new Error('ids must be an array of strings');
+  }
+  return { ids: data.ids };
+};
+
+export default defineBridgeAction({
+  name: 'markRead',
+  validate: (message) => validateNotificationIds((message.data || {}) as NotificationIdsRequest),
+  handle: async ({ ids }) => ({ unreadCount: await markRead(ids) }),
+});
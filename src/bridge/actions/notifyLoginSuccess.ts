@@ -0,0 +1,43 @@
+/**
+ * notifyLoginSuccess - 로그인 성공 알림 (FCM 토큰 서버 동기화용)
+ * 로그인 대기 중이던 딥링크가 있으면 다시 이동합니다.
+ */
+
+import { defineBridgeAction } from '../registry';
+import { getFcmToken, syncFcmTokenToServer } from '../../services/fcmService';
+import { handleLoginSuccess } from '../../services/deepLinkAuthService';
+import { syncNotificationPreferencesToServer } from '../../services/notificationPreferenceService';
+
+export default defineBridgeAction({
+  name: 'notifyLoginSuccess',
+  validate: (message) => {
+    // message에서 직접 accessToken 추출 (레거시) 또는 data.accessToken
+    const accessToken = (message as any).accessToken || (message.data as any)?.accessToken;
+    if (!accessToken) {
+      throw new Error('accessToken not found in message');
+    }
+    return { accessToken };
+  },
+  handle: async ({ accessToken }) => {
+    // 로그인 대기 딥링크 재실행 (토큰 동기화보다 먼저)
+    await handleLoginSuccess();
+
+    // 로그인 성공 시 FCM 토큰 서버 동기화
+    console.log('[Bridge] notifyLoginSuccess - fetching FCM token...');
+    const fcmToken = await getFcmToken();
+    console.log('[Bridge] FCM token:', fcmToken ? `obtained (${fcmToken.substring(0, 20)}...)` : 'null');
+
+    if (fcmToken) {
+      console.log('[Bridge] Syncing FCM token to server...');
+      await syncFcmTokenToServer(fcmToken, accessToken);
+      console.log('[Bridge] FCM token sync completed');
+    } else {
+      console.warn('[Bridge] FCM token not available');
+    }
+
+    // 알림 카테고리 수신 설정 서버 동기화
+    await syncNotificationPreferencesToServer(accessToken);
+
+    return undefined;
+  },
+});
@@ -0,0 +1,21 @@
+/**
+ * notifyLogout - 로그아웃 알림
+ */
+
+import { defineBridgeAction } from '../registry';
+import { handleLogout } from '../../services/deepLinkAuthService';
+import { clearNotifications } from '../../services/notificationInboxService';
+import { clearPreferenceSyncToken } from '../../services/notificationPreferenceService';
+
+export default defineBridgeAction({
+  name: 'notifyLogout',
+  handle: async () => {
+    // 로그아웃 시 필요한 처리
+    console.log('[Bridge] User logged out');
+    await handleLogout();
+    clearPreferenceSyncToken();
+    // 알림 보관함 비우기 (배지도 0으로 갱신)
+    await clearNotifications();
+    return undefined;
+  },
+});
@@ -0,0 +1,12 @@
+/**
+ * openAppSettings - 앱 설정 화면 열기
+ * 권한을 영구 거부한 사용자를 설정으로 안내
+ */
+
+import { defineBridgeAction } from '../registry';
+import { openAppSettings } from '../../services/permissionService';
+
+export default defineBridgeAction({
+  name: 'openAppSettings',
+  handle: async () => ({ opened: await openAppSettings() }),
+});
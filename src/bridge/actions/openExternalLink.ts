@@ -0,0 +1,23 @@
+/**
+ * openExternalLink - 외부 링크 열기
+ * 인앱 브라우저로 열기 (앱 딥링크는 외부 앱으로 열기)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { openExternalLink } from '../../services/inAppBrowserService';
+
+export default defineBridgeAction({
+  name: 'openExternalLink',
+  origins: 'trusted',
+  validate: (message) => {
+    const url = (message.data as { url?: string } | undefined)?.url;
+    if (!url) {
+      throw new Error('url is required');
+    }
+    return { url };
+  },
+  handle: async ({ url }) => {
+    await openExternalLink(url);
+    return undefined;
+  },
+});
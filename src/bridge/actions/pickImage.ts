@@ -0,0 +1,91 @@
+/**
+ * pickImage - source 지정 이미지 선택
+ * 웹에서 BottomModal UI로 카메라/갤러리 선택 후 source와 옵션(크롭, 비율, 크기, 다중 선택 등)과 함께 호출
+ * 기본은 파일 핸들 전송, base64는 data.transfer === 'base64'일 때만 (옵션 없는 레거시 호출은 base64 유지)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { PickImageRequest } from '../protocol';
+import { pickImage, discardPickedImage } from '../../utils/webviewBridge';
+
+const CROP_SHAPES = ['circle', 'rect', 'none'];
+const TRANSFER_MODES = ['handle', 'base64'];
+const LABEL_KEYS = ['title', 'choose', 'cancel'];
+
+const isPositiveNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+};
+
+export default defineBridgeAction({
+  name: 'pickImage',
+  validate: (message) => {
+    const { source } = message;
+    if (source !== 'camera' && source !== 'gallery') {
+      // source가 없으면 에러 반환 (웹에서 UI 선택 필요)
+      throw new Error('source is required (camera or gallery)');
+    }
+
+    const data = message.data as Partial<PickImageRequest> | undefined;
+    if (!data) {
+      return { source, transfer: 'base64' as const };
+    }
+
+    if (data.cropShape !== undefined && !CROP_SHAPES.includes(data.cropShape)) {
+      throw new Error('cropShape must be circle, rect or none');
+    }
+    if (data.aspectRatio !== undefined &&
+      !(Array.isArray(data.aspectRatio) && data.aspectRatio.length === 2 && data.aspectRatio.every(isPositiveNumber))) {
+      throw new Error('aspectRatio must be [width, height]');
+    }
+    if (data.cropShape !== 'rect' && data.cropShape !== 'none' && data.aspectRatio !== undefined &&
+      data.aspectRatio[0] !== data.aspectRatio[1]) {
+      // cropShape 기본값은 circle
+      throw new Error('circle crop requires a 1:1 aspectRatio');
+    }
+    if ((data.width !== undefined && !isPositiveNumber(data.width)) ||
+      (data.height !== undefined && !isPositiveNumber(data.height))) {
+      throw new Error('width and height must be positive numbers');
+    }
+    if (data.quality !== undefined && !(typeof data.quality === 'number' && data.quality > 0 && data.quality <= 1)) {
+      throw new Error('quality must be between 0 and 1');
+    }
+    if (data.maxCount !== undefined && !(Number.isInteger(data.maxCount) && data.maxCount > 0)) {
+      throw new Error('maxCount must be a positive integer');
+    }
+    if (data.maxSizeMB !== undefined && !isPositiveNumber(data.maxSizeMB)) {
+      throw new Error('maxSizeMB must be a positive number');
+    }
+    if (data.multiple !== undefined && typeof data.multiple !== 'boolean') {
+      throw new Error('multiple must be a boolean');
+    }
+    if (data.transfer !== undefined && !TRANSFER_MODES.includes(data.transfer)) {
+      throw new Error('transfer must be handle or base64');
+    }
+    if (data.labels !== undefined) {
+      const labels = data.labels as Record<string, unknown> | null;
+      if (typeof labels !== 'object' || labels === null || Array.isArray(labels) ||
+        Object.keys(labels).some((key) => !LABEL_KEYS.includes(key) || typeof labels[key] !== 'string')) {
+        throw new Error('labels must be { title?, choose?, cancel? } strings');
+      }
+    }
+
+    return { ...data, source, transfer: data.transfer || 'handle' };
+  },
+  handle: async (request, { signal }) => {
+    const { source, ...options } = request;
+    console.log('[Bridge] pickImage - source:', source, 'options:', JSON.stringify(options));
+
+    const result = await pickImage(source, options, signal);
+    // 결과 변환 중 취소된 경우 등록된 핸들 해제
+    if (signal?.aborted) {
+      console.log('[Bridge] pickImage - request cancelled by web, discarding result');
+      await discardPickedImage(result);
+      throw new BridgeError('E_CANCELLED', 'pickImage was cancelled');
+    }
+
+    const count = Array.isArray(result) ? result.length : 1;
+    console.log('[Bridge] pickImage - result:', `success (${count} image(s))`);
+    return result;
+  },
+});
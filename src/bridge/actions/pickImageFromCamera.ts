@@ -0,0 +1,19 @@
+/**
+ * pickImageFromCamera - 카메라로 촬영 (레거시, base64 포함)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { pickImageFromCamera, discardPickedImage } from '../../utils/webviewBridge';
+
+export default defineBridgeAction({
+  name: 'pickImageFromCamera',
+  handle: async (_payload, { signal }) => {
+    const result = await pickImageFromCamera({ transfer: 'base64' });
+    if (signal?.aborted) {
+      await discardPickedImage(result);
+      throw new BridgeError('E_CANCELLED', 'pickImageFromCamera was cancelled');
+    }
+    return result;
+  },
+});
@@ -0,0 +1,21 @@
+/**
+ * pickImageFromGallery - 갤러리에서 선택 (레거시, base64 포함)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { ImagePickerResult } from '../protocol';
+import { pickImageFromGallery, discardPickedImage } from '../../utils/webviewBridge';
+
+export default defineBridgeAction({
+  name: 'pickImageFromGallery',
+  handle: async (_payload, { signal }) => {
+    // 옵션 없는 레거시 호출은 항상 단일 결과
+    const result = (await pickImageFromGallery({ transfer: 'base64' })) as ImagePickerResult;
+    if (signal?.aborted) {
+      await discardPickedImage(result);
+      throw new BridgeError('E_CANCELLED', 'pickImageFromGallery was cancelled');
+    }
+    return result;
+  },
+});
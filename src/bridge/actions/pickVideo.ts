@@ -0,0 +1,50 @@
+/**
+ * pickVideo - 동영상 촬영/선택
+ * 웹에서 source(camera/gallery)와 옵션(maxDurationSec, maxSizeMB)과 함께 호출
+ * 동영상은 파일 핸들로만 전달 (썸네일만 base64 포함)
+ * 카메라 촬영은 카메라/마이크 권한을 요청하고, 거부되면 E_PERMISSION_DENIED/BLOCKED
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { PickVideoRequest } from '../protocol';
+import { pickVideo, discardPickedVideo } from '../../utils/webviewBridge';
+
+const isPositiveNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+};
+
+export default defineBridgeAction({
+  name: 'pickVideo',
+  validate: (message) => {
+    const { source } = message;
+    if (source !== 'camera' && source !== 'gallery') {
+      throw new Error('source is required (camera or gallery)');
+    }
+
+    const data = (message.data || {}) as Partial<PickVideoRequest>;
+    if (data.maxDurationSec !== undefined && !isPositiveNumber(data.maxDurationSec)) {
+      throw new Error('maxDurationSec must be a positive number');
+    }
+    if (data.maxSizeMB !== undefined && !isPositiveNumber(data.maxSizeMB)) {
+      throw new Error('maxSizeMB must be a positive number');
+    }
+
+    return { maxDurationSec: data.maxDurationSec, maxSizeMB: data.maxSizeMB, source };
+  },
+  handle: async (request, { signal }) => {
+    const { source, ...options } = request;
+    console.log('[Bridge] pickVideo - source:', source, 'options:', JSON.stringify(options));
+
+    const result = await pickVideo(source, options, signal);
+    // 썸네일 생성 중 취소된 경우 등록된 핸들 해제
+    if (signal?.aborted) {
+      console.log('[Bridge] pickVideo - request cancelled by web, discarding result');
+      await discardPickedVideo(result);
+      throw new BridgeError('E_CANCELLED', 'pickVideo was cancelled');
+    }
+
+    console.log('[Bridge] pickVideo - result:', `success (${result.duration}s, ${result.size} bytes)`);
+    return result;
+  },
+});
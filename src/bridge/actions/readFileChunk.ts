@@ -0,0 +1,19 @@
+/**
+ * readFileChunk - 파일 핸들을 청크 단위로 읽기 (base64)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { ReadFileChunkRequest } from '../protocol';
+import { readFileChunk } from '../../services/fileHandleService';
+
+export default defineBridgeAction({
+  name: 'readFileChunk',
+  validate: (message) => {
+    const data = message.data as ReadFileChunkRequest | undefined;
+    if (!data?.handle || typeof data.offset !== 'number') {
+      throw new Error('handle and offset are required');
+    }
+    return data;
+  },
+  handle: ({ handle, offset, length }) => readFileChunk(handle, offset, length),
+});
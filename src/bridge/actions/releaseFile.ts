@@ -0,0 +1,20 @@
+/**
+ * releaseFile - 파일 핸들 해제 (업로드 완료 후 임시 파일 정리)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { releaseFile } from '../../services/fileHandleService';
+
+export default defineBridgeAction({
+  name: 'releaseFile',
+  validate: (message) => {
+    const handle = (message.data as { handle?: string } | undefined)?.handle;
+    if (!handle) {
+      throw new Error('handle is required');
+    }
+    return { handle };
+  },
+  handle: async ({ handle }) => ({
+    released: await releaseFile(handle),
+  }),
+});
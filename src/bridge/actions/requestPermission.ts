@@ -0,0 +1,14 @@
+/**
+ * requestPermission - 권한 요청 (시스템 팝업)
+ * 다시 묻기 불가(permanentlyDenied)면 팝업 없이 현재 상태 반환 → 웹은 openAppSettings로 안내
+ */
+
+import { defineBridgeAction } from '../registry';
+import { requestPermission } from '../../services/permissionService';
+import { validatePermissionType } from './checkPermission';
+
+export default defineBridgeAction({
+  name: 'requestPermission',
+  validate: validatePermissionType,
+  handle: ({ permissionType }) => requestPermission(permissionType!),
+});
@@ -0,0 +1,29 @@
+/**
+ * setNotificationPreference - 카테고리 알림 수신 설정 변경
+ * 꺼진 카테고리의 포그라운드 알림은 배너 없이 웹에만 전달
+ * 로그인 상태면 서버에도 동기화 시도 (응답을 기다리지 않음, 로그아웃 상태면 다음 로그인 시 동기화)
+ */
+
+import { defineBridgeAction } from '../registry';
+import { SetNotificationPreferenceRequest } from '../protocol';
+import {
+  isNotificationCategory,
+  setNotificationPreference,
+} from '../../services/notificationPreferenceService';
+
+export default defineBridgeAction({
+  name: 'setNotificationPreference',
+  validate: (message) => {
+    const data = (message.data || {}) as SetNotificationPreferenceRequest;
+    if (!isNotificationCategory(data.category)) {
+      throw new Error('category must be reservations, chat, community, marketing or system');
+    }
+    if (typeof data.enabled !== 'boolean') {
+      throw new Error('enabled must be a boolean');
+    }
+    return { category: data.category, enabled: data.enabled };
+  },
+  handle: async ({ category, enabled }) => ({
+    categories: await setNotificationPreference(category, enabled),
+  }),
+});
@@ -0,0 +1,28 @@
+/**
+ * shareContent - 시스템 공유 시트로 콘텐츠 공유
+ */
+
+import { Share } from 'react-native';
+
+import { defineBridgeAction } from '../registry';
+import { ShareContentRequest } from '../protocol';
+
+export default defineBridgeAction({
+  name: 'shareContent',
+  origins: 'trusted',
+  validate: (message) => {
+    const data = message.data as ShareContentRequest | undefined;
+    if (!data) {
+      throw new Error('share data is required');
+    }
+    return data;
+  },
+  handle: async ({ title, message, url }) => {
+    await Share.share({
+      title,
+      message: url ? `${message}\n${url}` : message,
+      url,
+    });
+    return undefined;
+  },
+});
@@ -0,0 +1,42 @@
+/**
+ * shareKakao - 카카오톡 피드 공유 (딥링크 지원)
+ * 카카오 SDK 실패 시 시스템 공유 시트로 fallback
+ */
+
+import { Share } from 'react-native';
+
+import { defineBridgeAction } from '../registry';
+import { ShareKakaoRequest } from '../protocol';
+import { shareKakaoFeed } from '../../services/kakaoShareService';
+
+export default defineBridgeAction({
+  name: 'shareKakao',
+  origins: 'trusted',
+  validate: (message) => {
+    // data 자체가 KakaoShareData 객체임 (nativeBridge.ts에서 { data: shareData } 형태로 보냄 -> message.data = shareData)
+    const data = message.data as ShareKakaoRequest | undefined;
+    console.log('[Bridge] shareKakao data:', JSON.stringify(data));
+
+    if (!data || !data.title || !data.webUrl) {
+      throw new Error('Invalid share data');
+    }
+    return data;
+  },
+  handle: async (params) => {
+    try {
+      const success = await shareKakaoFeed({
+        ...params,
+        buttonTitle: params.buttonTitle || '자세히 보기',
+      });
+      return { success };
+    } catch (error) {
+      console.error('[Bridge] Kakao share error, falling back to system share:', error);
+      await Share.share({
+        title: params.title,
+        message: `${params.title}\n${params.webUrl}`,
+        url: params.webUrl,
+      });
+      return { success: true, fallback: true };
+    }
+  },
+});
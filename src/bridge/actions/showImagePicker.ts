@@ -0,0 +1,15 @@
+/**
+ * showImagePicker - 웹에서 BottomModal UI 사용하도록 안내
+ * 이 액션은 더 이상 네이티브 UI를 표시하지 않음
+ */
+
+import { defineBridgeAction } from '../registry';
+
+export default defineBridgeAction({
+  name: 'showImagePicker',
+  origins: 'trusted',
+  handle: async () => {
+    console.log('[Bridge] showImagePicker - use web BottomModal UI instead');
+    return { useWebUI: true as const };
+  },
+});
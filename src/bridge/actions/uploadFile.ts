@@ -0,0 +1,52 @@
+/**
+ * uploadFile - 파일 핸들을 서버로 직접 업로드
+ * 진행률은 uploadProgress 이벤트로 웹에 전달
+ */
+
+import { defineBridgeAction } from '../registry';
+import { UploadFileRequest } from '../protocol';
+import { uploadFile } from '../../services/fileHandleService';
+
+// 진행률 이벤트 최소 간격 (ms)
+const PROGRESS_INTERVAL_MS = 250;
+
+export default defineBridgeAction({
+  name: 'uploadFile',
+  validate: (message) => {
+    const data = message.data as UploadFileRequest | undefined;
+    if (!data?.handle || !data.url) {
+      throw new Error('handle and url are required');
+    }
+    if (!/^https:\/\//i.test(data.url)) {
+      throw new Error('url must be https');
+    }
+    return data;
+  },
+  handle: async ({ handle, url, fields, headers, fieldName, method }, { emitToWeb, signal }) => {
+    let lastEmittedAt = 0;
+
+    return uploadFile(handle, url, {
+      fields,
+      headers,
+      fieldName,
+      method,
+      signal,
+      onProgress: ({ loaded, total }) => {
+        // 진행률 이벤트는 최대 PROGRESS_INTERVAL_MS 간격으로 전송 (완료 시점은 항상 전송)
+        const now = Date.now();
+        if (loaded < total && now - lastEmittedAt < PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastEmittedAt = now;
+
+        emitToWeb('uploadProgress', {
+          handle,
+          url,
+          loaded,
+          total,
+          progress: total > 0 ? loaded / total : -1,
+        });
+      },
+    });
+  },
+});
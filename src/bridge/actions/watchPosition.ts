@@ -0,0 +1,42 @@
+/**
+ * watchPosition - 위치 추적 시작
+ * 위치 변경은 locationChange 이벤트로 전달, clearWatch(watchId)로 중지
+ */
+
+import { defineBridgeAction } from '../registry';
+import { BridgeError } from '../errors';
+import { WatchPositionRequest } from '../protocol';
+import { watchPosition, clearWatch } from '../../services/locationService';
+import { ACCURACY_LEVELS, isNonNegativeNumber } from './getCurrentPosition';
+
+export default defineBridgeAction({
+  name: 'watchPosition',
+  validate: (message) => {
+    const data = (message.data || {}) as WatchPositionRequest;
+    if (data.accuracy !== undefined && !ACCURACY_LEVELS.includes(data.accuracy)) {
+      throw new Error('accuracy must be low, balanced or high');
+    }
+    if ((data.distanceInterval !== undefined && !isNonNegativeNumber(data.distanceInterval)) ||
+      (data.timeIntervalMs !== undefined && !isNonNegativeNumber(data.timeIntervalMs))) {
+      throw new Error('distanceInterval and timeIntervalMs must be non-negative numbers');
+    }
+    return {
+      accuracy: data.accuracy,
+      distanceInterval: data.distanceInterval,
+      timeIntervalMs: data.timeIntervalMs,
+    };
+  },
+  handle: async (options, { signal, emitToWeb }) => {
+    const watchId = await watchPosition(options, (id, position) => {
+      emitToWeb('locationChange', { watchId: id, position });
+    });
+
+    // 권한 팝업 중 웹에서 취소했으면 추적 중지
+    if (signal?.aborted) {
+      clearWatch(watchId);
+      throw new BridgeError('E_CANCELLED', 'watchPosition was cancelled');
+    }
+
+    return { watchId };
+  },
+});
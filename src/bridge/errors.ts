@@ -0,0 +1,63 @@
+/**
+ * Bridge Errors - 브릿지 에러 코드
+ * 액션 실패는 BridgeError(code)로 throw하고, 레지스트리가 응답의 code로 웹에 전달합니다.
+ * 라이브러리 네이티브 에러 코드(E_PICKER_CANCELLED 등)는 표준 코드로 변환합니다.
+ */
+
+import { BridgeErrorCode } from './protocol';
+
+// 브릿지 에러
+export class BridgeError extends Error {
+  code: BridgeErrorCode;
+
+  constructor(code: BridgeErrorCode, message: string) {
+    super(message);
+    this.name = 'BridgeError';
+    this.code = code;
+  }
+}
+
+// 네이티브 에러 코드 → 표준 코드
+// react-native-image-crop-picker(E_*), expo 모듈(ERR_*)
+const NATIVE_ERROR_CODES: Record<string, BridgeErrorCode> = {
+  E_PICKER_CANCELLED: 'E_CANCELLED',
+  E_NO_CAMERA_PERMISSION: 'E_PERMISSION_DENIED',
+  E_NO_LIBRARY_PERMISSION: 'E_PERMISSION_DENIED',
+  E_PICKER_CANNOT_RUN_CAMERA_ON_SIMULATOR: 'E_UNSUPPORTED',
+  E_CAMERA_IS_NOT_AVAILABLE: 'E_UNSUPPORTED',
+  E_CANNOT_LAUNCH_CAMERA: 'E_UNSUPPORTED',
+  ERR_LOCATION_UNAUTHORIZED: 'E_PERMISSION_DENIED',
+  ERR_LOCATION_REQUEST_CANCELLED: 'E_CANCELLED',
+  // 위치 서비스 꺼짐 (기기 설정 필요)
+  ERR_LOCATION_UNAVAILABLE: 'E_UNSUPPORTED',
+  ERR_CURRENT_LOCATION_IS_UNAVAILABLE: 'E_UNSUPPORTED',
+  ERR_LOCATION_SETTINGS_UNSATISFIED: 'E_UNSUPPORTED',
+  // expo-file-system 다운로드/업로드 요청 실패 (iOS URLSession 에러)
+  ERR_FILESYSTEM_CANNOT_DOWNLOAD: 'E_NETWORK',
+  ERR_FILESYSTEM_CANNOT_UPLOAD: 'E_NETWORK',
+  // expo-file-system 다운로드/업로드 요청 실패 (Android OkHttp IOException, 모듈 이름이 코드로 전달됨)
+  FileSystemLegacyModule: 'E_NETWORK',
+};
+
+// RN fetch가 네트워크 실패 시 throw하는 TypeError 메시지 (whatwg-fetch)
+const FETCH_NETWORK_ERROR_MESSAGES = ['Network request failed', 'Network request timed out'];
+
+/**
+ * 임의의 에러를 BridgeError로 변환
+ */
+export const toBridgeError = (error: unknown, fallback: BridgeErrorCode = 'E_INTERNAL'): BridgeError => {
+  if (error instanceof BridgeError) {
+    return error;
+  }
+
+  const message = (error as Error)?.message || String(error);
+  const nativeCode = (error as { code?: unknown })?.code;
+
+  if (typeof nativeCode === 'string' && NATIVE_ERROR_CODES[nativeCode]) {
+    return new BridgeError(NATIVE_ERROR_CODES[nativeCode], message);
+  }
+  if (error instanceof TypeError && FETCH_NETWORK_ERROR_MESSAGES.includes(message)) {
+    return new BridgeError('E_NETWORK', message);
+  }
+  return new BridgeError(fallback, message);
+};
@@ -0,0 +1,18 @@
+/**
+ * Bridge - RN ↔ 웹 브릿지 진입점
+ * 액션 모듈을 레지스트리에 등록하고 디스패치 API를 노출합니다.
+ */
+
+import { registerBridgeAction } from './registry';
+import { bridgeActions } from './actions';
+
+bridgeActions.forEach(registerBridgeAction);
+
+export {
+  dispatchBridgeMessage,
+  getRegisteredBridgeActions,
+  registerBridgeAction,
+} from './registry';
+export { BridgeError, toBridgeError } from './errors';
+export type { BridgeActionContext, BridgeActionHandler, BridgeDispatchResult } from './registry';
+export * from './protocol';
@@ -0,0 +1,224 @@
+/**
+ * Bridge Message Queue - RN → 웹 메시지 전달 큐
+ * 응답과 이벤트를 구조화된 항목으로 보관하고, WebView가 준비되면 순서대로 묶어 전달합니다.
+ *
+ * - 항목별 TTL: 만료된 항목은 전달하지 않고 폐기
+ * - requestId 중복 제거: 같은 요청의 응답은 한 번만 큐에 저장
+ * - 페이지 식별(pageId): 요청을 보낸 문서가 리로드되면 해당 응답은 폐기
+ * - 웹 ack: 웹이 처리한 항목을 알려줄 때까지 재전송
+ * - 전달 조건(canDeliver): 현재 문서가 신뢰된 페이지가 아니면 보류 (TTL 내에 신뢰된 페이지로 돌아오면 전달)
+ */
+
+import {
+  BridgeEventMap,
+  BridgeEventName,
+  BridgeResponse,
+  BridgeTypedResponseError,
+} from './protocol';
+
+// 큐 항목 종류
+export type QueuedBridgeMessage =
+  | { kind: 'response'; response: BridgeResponse }
+  | { kind: 'typedResponse'; type: string; result: unknown; error?: BridgeTypedResponseError }
+  | { kind: 'event'; event: BridgeEventName; payload: BridgeEventMap[BridgeEventName] };
+
+// 큐 항목
+interface QueueEntry {
+  id: string;
+  message: QueuedBridgeMessage;
+  // 전달 대상 문서 (null이면 현재 문서 어디든 전달)
+  pageId: string | null;
+  requestId?: string;
+  expiresAt: number;
+  attempts: number;
+  lastSentAt: number | null;
+}
+
+// 큐 생성 옵션
+export interface BridgeMessageQueueOptions {
+  // WebView에 스크립트 주입
+  inject: (script: string) => void;
+  // WebView가 스크립트를 실행할 수 있는 상태인지
+  isReady: () => boolean;
+  // 현재 문서에 전달해도 되는 메시지인지 (외부 페이지에는 이벤트/응답을 보내지 않음)
+  canDeliver: (message: QueuedBridgeMessage) => boolean;
+}
+
+// 기본 TTL (ms)
+const RESPONSE_TTL_MS = 60000;
+const EVENT_TTL_MS = 30000;
+
+// 이벤트별 TTL (진행률/위치처럼 금방 의미가 없어지는 이벤트는 짧게)
+const EVENT_TTL_OVERRIDES: Partial<Record<BridgeEventName, number>> = {
+  downloadProgress: 5000,
+  uploadProgress: 5000,
+  locationChange: 10000,
+};
+
+// ack 대기 후 재전송 간격 및 최대 전송 횟수
+const RETRY_INTERVAL_MS = 2000;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * 메시지 큐 생성
+ */
+export const createBridgeMessageQueue = ({ inject, isReady, canDeliver }: BridgeMessageQueueOptions) => {
+  let entries: QueueEntry[] = [];
+  let currentPageId: string | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let idCounter = 0;
+
+  const generateId = (): string => `msg_${++idCounter}_${Date.now().toString(36)}`;
+
+  const scheduleRetry = () => {
+    if (retryTimer || entries.length === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, RETRY_INTERVAL_MS);
+  };
+
+  // 만료/페이지 불일치/재전송 초과 항목 제거
+  const prune = (now: number) => {
+    entries = entries.filter((entry) => {
+      if (entry.expiresAt <= now) {
+        console.log('[BridgeQueue] Expired:', entry.id, entry.message.kind, entry.requestId || '');
+        return false;
+      }
+      if (entry.pageId && currentPageId && entry.pageId !== currentPageId) {
+        console.log('[BridgeQueue] Dropping stale message for reloaded page:', entry.id, entry.requestId || '');
+        return false;
+      }
+      if (entry.attempts >= MAX_ATTEMPTS && entry.lastSentAt !== null && now - entry.lastSentAt >= RETRY_INTERVAL_MS) {
+        console.warn('[BridgeQueue] Not acknowledged, giving up:', entry.id, entry.message.kind);
+        return false;
+      }
+      return true;
+    });
+  };
+
+  /**
+   * 전달 가능한 항목을 순서대로 묶어 주입
+   * 전송 후 ack가 없는 항목은 RETRY_INTERVAL_MS 후 재전송
+   */
+  const flush = () => {
+    const now = Date.now();
+    prune(now);
+
+    if (entries.length === 0 || !isReady()) {
+      scheduleRetry();
+      return;
+    }
+
+    const batch = entries.filter((entry) =>
+      (entry.lastSentAt === null || now - entry.lastSentAt >= RETRY_INTERVAL_MS) && canDeliver(entry.message)
+    );
+    if (batch.length > 0) {
+      batch.forEach((entry) => {
+        entry.attempts += 1;
+        entry.lastSentAt = now;
+      });
+
+      const items = batch.map((entry) => ({ id: entry.id, pageId: entry.pageId, ...entry.message }));
+      console.log(`[BridgeQueue] Delivering ${items.length} message(s)`);
+      inject(`
+        (function() {
+          try {
+            if (window._deliverNativeMessages) {
+              window._deliverNativeMessages(${JSON.stringify(items)});
+            }
+          } catch (e) {
+            console.error('[RN->Web] Error delivering messages:', e);
+          }
+        })();
+        true;
+      `);
+    }
+
+    scheduleRetry();
+  };
+
+  const enqueue = (message: QueuedBridgeMessage, pageId: string | null, ttlMs: number, requestId?: string) => {
+    entries.push({
+      id: generateId(),
+      message,
+      pageId,
+      requestId,
+      expiresAt: Date.now() + ttlMs,
+      attempts: 0,
+      lastSentAt: null,
+    });
+    flush();
+  };
+
+  return {
+    /**
+     * requestId 기반 응답 (요청을 보낸 문서에만 전달)
+     */
+    enqueueResponse: (response: BridgeResponse, pageId: string | null) => {
+      const duplicate = entries.some(
+        (entry) => entry.message.kind === 'response' && entry.requestId === response.requestId
+      );
+      if (duplicate) {
+        console.warn('[BridgeQueue] Duplicate response ignored:', response.requestId);
+        return;
+      }
+      enqueue({ kind: 'response', response }, pageId, RESPONSE_TTL_MS, response.requestId);
+    },
+
+    /**
+     * 타입 기반 응답 (레거시, 요청을 보낸 문서에만 전달)
+     */
+    enqueueTypedResponse: (
+      type: string,
+      result: unknown,
+      pageId: string | null,
+      error?: BridgeTypedResponseError
+    ) => {
+      enqueue({ kind: 'typedResponse', type, result, error }, pageId, RESPONSE_TTL_MS);
+    },
+
+    /**
+     * 이벤트 (현재 문서에 전달, 리로드 후 새 문서에도 전달)
+     */
+    enqueueEvent: <E extends BridgeEventName>(event: E, payload: BridgeEventMap[E]) => {
+      enqueue({ kind: 'event', event, payload }, null, EVENT_TTL_OVERRIDES[event] ?? EVENT_TTL_MS);
+    },
+
+    /**
+     * 웹 ack 처리 (stale: 다른 문서로 전달되어 폐기된 항목)
+     */
+    acknowledge: (ids: string[], staleIds: string[] = []) => {
+      const done = new Set([...ids, ...staleIds]);
+      entries = entries.filter((entry) => !done.has(entry.id));
+      if (staleIds.length > 0) {
+        console.log('[BridgeQueue] Stale messages dropped by web:', staleIds.length);
+      }
+    },
+
+    /**
+     * 현재 문서 식별자 갱신 (주입 스크립트 초기화 시 전달)
+     */
+    setPageId: (pageId: string) => {
+      if (currentPageId !== pageId) {
+        console.log('[BridgeQueue] Page changed:', pageId);
+        currentPageId = pageId;
+      }
+      flush();
+    },
+
+    getPageId: (): string | null => currentPageId,
+
+    flush,
+
+    dispose: () => {
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      entries = [];
+    },
+  };
+};
+
+export type BridgeMessageQueue = ReturnType<typeof createBridgeMessageQueue>;
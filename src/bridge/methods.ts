@@ -0,0 +1,227 @@
+/**
+ * Bridge Methods - window.NativeBridge 메서드 정의 (단일 기준 테이블)
+ * 주입 스크립트의 NativeBridge 메서드와 웹용 타입 선언(types/native-bridge.d.ts)이
+ * 모두 이 테이블에서 생성되므로, 메서드를 바꾸면 `npm run bridge:types`로 선언 파일을 다시 생성합니다.
+ *
+ * 생성 스크립트가 이 파일을 그대로 트랜스파일해 읽으므로 protocol 외의 모듈은 import하지 않습니다.
+ */
+
+import type { BridgeActionName } from './protocol';
+
+// 메서드 인자 정의
+export interface BridgeMethodParam {
+  name: string;
+  type: string;  // 선언 파일에 쓰일 타입 (protocol.ts의 타입 이름 사용)
+  optional?: boolean;
+  // 메시지 위치: source(최상위 source 필드), data(인자 객체 전체), 또는 data 키 목록
+  target: 'source' | 'data' | string[];
+}
+
+// 마지막 options 인자 정의 (호출 옵션 timeoutMs/signal과 합쳐짐)
+export interface BridgeMethodOptions {
+  type: string;
+  // data로 전달할 options 필드 (all: 호출 옵션을 제외한 전체)
+  fields: 'all' | string[];
+  // timeoutMs를 호출 타임아웃 대신 data로 전달 (예: 위치 수신 제한 시간)
+  forwardTimeout?: boolean;
+}
+
+// 메서드 정의
+export interface BridgeMethodSpec {
+  description: string;
+  // request: 응답 promise 반환, fire: 응답 없이 전송만
+  mode: 'request' | 'fire';
+  params: BridgeMethodParam[];
+  options?: BridgeMethodOptions;
+  // 기본 타임아웃 (interactive: 사용자 입력 대기 액션)
+  timeout?: 'default' | 'interactive';
+  // 주입 스크립트에 직접 구현된 메서드의 선언 (웹 측 상태 관리가 필요한 경우)
+  custom?: string;
+}
+
+/**
+ * 액션별 NativeBridge 메서드 (null이면 웹에 메서드로 노출하지 않는 내부 액션)
+ * BridgeActionMap에 액션을 추가하면 여기도 추가해야 컴파일됩니다.
+ */
+export const BRIDGE_METHODS: Record<BridgeActionName, BridgeMethodSpec | null> = {
+  showImagePicker: {
+    description: '이미지 피커 표시 (웹 BottomModal UI 사용 안내)',
+    mode: 'request',
+    params: [],
+  },
+  pickImage: {
+    description: "이미지 선택 (transfer 기본값 'handle', options 인자 없이 호출하면 레거시 호환으로 base64 포함, multiple이면 배열 반환)",
+    mode: 'request',
+    params: [{ name: 'source', type: 'ImageSource', target: 'source' }],
+    options: { type: 'ImagePickerOptions', fields: 'all' },
+    timeout: 'interactive',
+  },
+  pickImageFromCamera: {
+    description: '카메라로 촬영 (레거시, base64 포함)',
+    mode: 'request',
+    params: [],
+    timeout: 'interactive',
+  },
+  pickImageFromGallery: {
+    description: '갤러리에서 선택 (레거시, base64 포함)',
+    mode: 'request',
+    params: [],
+    timeout: 'interactive',
+  },
+  pickVideo: {
+    description: '동영상 촬영/선택 (파일 핸들과 재생 시간/해상도/크기/썸네일 반환, 촬영은 카메라/마이크 권한 필요)',
+    mode: 'request',
+    params: [{ name: 'source', type: 'ImageSource', target: 'source' }],
+    options: { type: 'VideoPickerOptions', fields: 'all' },
+    timeout: 'interactive',
+  },
+  checkPermission: {
+    description: '권한 확인 (팝업 없음)',
+    mode: 'request',
+    params: [{ name: 'permissionType', type: 'PermissionType', target: ['type', 'permissionType'] }],
+  },
+  requestPermission: {
+    description: '권한 요청 (시스템 팝업), permanentlyDenied면 openAppSettings로 안내',
+    mode: 'request',
+    params: [{ name: 'permissionType', type: 'PermissionType', target: ['type', 'permissionType'] }],
+    timeout: 'interactive',
+  },
+  openAppSettings: {
+    description: '앱 설정 화면 열기',
+    mode: 'request',
+    params: [],
+  },
+  getCurrentPosition: {
+    description: '현재 위치 조회 (timeoutMs는 위치 수신 제한 시간, 권한 팝업 대기는 포함하지 않음)',
+    mode: 'request',
+    params: [],
+    options: { type: 'GetCurrentPositionRequest', fields: 'all', forwardTimeout: true },
+    timeout: 'interactive',
+  },
+  watchPosition: {
+    description: "위치 추적 시작 - listener(position) 호출, watchId 반환 (on('locationChange')로도 수신 가능)",
+    mode: 'request',
+    params: [],
+    timeout: 'interactive',
+    custom: 'watchPosition(listener: (position: GeoPosition) => void, ' +
+      'options?: WatchPositionRequest & BridgeCallOptions): Promise<string>;',
+  },
+  clearWatch: {
+    description: '위치 추적 중지',
+    mode: 'fire',
+    params: [],
+    custom: 'clearWatch(watchId: string): void;',
+  },
+  getFcmToken: {
+    description: 'FCM 토큰 요청 (권한 팝업이 뜰 수 있음)',
+    mode: 'request',
+    params: [],
+    timeout: 'interactive',
+  },
+  notifyLoginSuccess: {
+    description: '로그인 성공 알림 (FCM 토큰 서버 동기화용)',
+    mode: 'fire',
+    params: [{ name: 'accessToken', type: 'string', target: ['accessToken'] }],
+  },
+  notifyLogout: {
+    description: '로그아웃 알림',
+    mode: 'fire',
+    params: [],
+  },
+  downloadFile: {
+    description: '파일 다운로드 (진행률은 downloadProgress 이벤트)',
+    mode: 'fire',
+    params: [
+      { name: 'url', type: 'string', target: ['url'] },
+      { name: 'fileName', type: 'string', target: ['fileName'] },
+    ],
+  },
+  openExternalLink: {
+    description: '외부 링크 열기 (인앱 브라우저)',
+    mode: 'fire',
+    params: [{ name: 'url', type: 'string', target: ['url'] }],
+  },
+  shareContent: {
+    description: '콘텐츠 공유 (시스템 공유 시트)',
+    mode: 'fire',
+    params: [
+      { name: 'title', type: 'string', target: ['title'] },
+      { name: 'message', type: 'string', target: ['message'] },
+      { name: 'url', type: 'string', target: ['url'] },
+    ],
+  },
+  shareKakao: {
+    description: '카카오톡 공유 (실패 시 시스템 공유 시트로 대체)',
+    mode: 'request',
+    params: [{ name: 'content', type: 'ShareKakaoRequest', target: 'data' }],
+    timeout: 'interactive',
+  },
+  getCapabilities: {
+    description: '앱 기능 정보 요청 (앱 버전, 프로토콜 버전, 지원 액션 목록)',
+    mode: 'request',
+    params: [],
+  },
+  // 타임아웃/AbortSignal 처리 시 주입 스크립트가 내부적으로 전송
+  cancelRequest: null,
+  uploadFile: {
+    description: '파일 핸들 업로드 (multipart/form-data, 진행률은 uploadProgress 이벤트)',
+    mode: 'request',
+    params: [
+      { name: 'handle', type: 'string', target: ['handle'] },
+      { name: 'url', type: 'string', target: ['url'] },
+      { name: 'fields', type: 'Record<string, string>', optional: true, target: ['fields'] },
+      { name: 'headers', type: 'Record<string, string>', optional: true, target: ['headers'] },
+    ],
+    options: { type: "Pick<UploadFileRequest, 'fieldName' | 'method'>", fields: ['fieldName', 'method'] },
+    timeout: 'interactive',
+  },
+  readFileChunk: {
+    description: '파일 핸들 청크 읽기 (base64)',
+    mode: 'request',
+    params: [
+      { name: 'handle', type: 'string', target: ['handle'] },
+      { name: 'offset', type: 'number', target: ['offset'] },
+      { name: 'length', type: 'number', optional: true, target: ['length'] },
+    ],
+  },
+  releaseFile: {
+    description: '파일 핸들 해제 (임시 파일 삭제, 해제하지 않으면 미사용 30분 후 자동 해제)',
+    mode: 'request',
+    params: [{ name: 'handle', type: 'string', target: ['handle'] }],
+  },
+  getDeepLinkHistory: {
+    description: '딥링크 수신 기록 조회 (최신순, 캠페인 utm 파라미터 포함)',
+    mode: 'request',
+    params: [],
+    options: { type: 'GetDeepLinkHistoryRequest', fields: ['limit', 'since'] },
+  },
+  getNotificationPreferences: {
+    description: '카테고리별 알림 수신 설정 조회 (예약, 채팅, 커뮤니티, 마케팅, 시스템)',
+    mode: 'request',
+    params: [],
+  },
+  setNotificationPreference: {
+    description: '카테고리 알림 수신 설정 변경 (로그인 상태면 서버에도 동기화, 변경 후 전체 설정 반환)',
+    mode: 'request',
+    params: [
+      { name: 'category', type: 'NotificationCategory', target: ['category'] },
+      { name: 'enabled', type: 'boolean', target: ['enabled'] },
+    ],
+  },
+  getNotifications: {
+    description: '알림 보관함 조회 (최신순, 읽지 않은 수 포함)',
+    mode: 'request',
+    params: [],
+    options: { type: 'GetNotificationsRequest', fields: ['unreadOnly', 'limit'] },
+  },
+  markRead: {
+    description: '알림 읽음 처리 (ids 생략 시 전체), 앱 배지는 읽지 않은 수로 갱신',
+    mode: 'request',
+    params: [{ name: 'ids', type: 'string[]', optional: true, target: ['ids'] }],
+  },
+  clearNotifications: {
+    description: '알림 보관함 삭제 (ids 생략 시 전체)',
+    mode: 'request',
+    params: [{ name: 'ids', type: 'string[]', optional: true, target: ['ids'] }],
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Bridge Origins - 브릿지 호출 허용 origin 관리
+ * WebView에는 토스 결제, Notion 등 외부 페이지도 로드되므로
+ * 메시지를 보낸 페이지의 origin을 검사해 신뢰된 페이지만 네이티브 기능을 호출하도록 합니다.
+ */
+
+// WebView URL (camter 웹앱)
+const WEBVIEW_URL = process.env.EXPO_PUBLIC_WEBVIEW_URL || 'https://camter-client.vercel.app/';
+
+// 추가 신뢰 origin (쉼표 구분, 예: 파트너 도메인, 로컬 개발 서버)
+const EXTRA_TRUSTED_ORIGINS = process.env.EXPO_PUBLIC_BRIDGE_TRUSTED_ORIGINS || '';
+
+/**
+ * origin 정책
+ * - camter: camter 웹앱 origin만 허용 (토큰, 다운로드 등 민감한 액션)
+ * - trusted: camter + 추가 신뢰 origin 허용
+ */
+export type BridgeOriginPolicy = 'camter' | 'trusted';
+
+/**
+ * URL에서 origin 추출 (scheme://host[:port])
+ */
+export const getOrigin = (url: string | undefined | null): string | null => {
+  if (!url) return null;
+
+  const match = url.match(/^(https?:\/\/[^/?#]+)/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+const parseOrigins = (value: string): string[] => {
+  return value
+    .split(',')
+    .map((origin) => getOrigin(origin.trim()))
+    .filter((origin): origin is string => origin !== null);
+};
+
+// camter 웹앱 origin 목록
+export const CAMTER_ORIGINS: string[] = Array.from(
+  new Set([
+    'https://camter.co.kr',
+    'https://www.camter.co.kr',
+    'https://camter-client.vercel.app',
+    ...parseOrigins(WEBVIEW_URL),
+  ])
+);
+
+// 브릿지 호출 신뢰 origin 목록
+export const TRUSTED_ORIGINS: string[] = Array.from(
+  new Set([...CAMTER_ORIGINS, ...parseOrigins(EXTRA_TRUSTED_ORIGINS)])
+);
+
+/**
+ * 메시지를 보낸 페이지 URL이 정책에 맞는지 확인
+ */
+export const isOriginAllowed = (url: string | undefined | null, policy: BridgeOriginPolicy): boolean => {
+  const origin = getOrigin(url);
+  if (!origin) return false;
+
+  const allowed = policy === 'camter' ? CAMTER_ORIGINS : TRUSTED_ORIGINS;
+  return allowed.includes(origin);
+};
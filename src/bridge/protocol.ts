@@ -0,0 +1,518 @@
+/**
+ * Bridge Protocol - RN ↔ 웹 브릿지 프로토콜 정의
+ * 모든 액션의 요청/응답 payload 타입과 프로토콜 버전을 한 곳에서 관리합니다.
+ *
+ * 액션을 추가/변경하면 BRIDGE_PROTOCOL_VERSION을 올려 웹이 getCapabilities로
+ * 설치된 앱 빌드의 지원 범위를 판단할 수 있도록 합니다.
+ *
+ * 웹용 선언 파일(types/native-bridge.d.ts)이 이 파일에서 생성되므로 import 없이 타입만 정의하고,
+ * 변경 후에는 `npm run bridge:types`를 실행합니다.
+ */
+
+// 프로토콜 버전 (액션/페이로드 변경 시 증가)
+export const BRIDGE_PROTOCOL_VERSION = 18;
+
+// 이미지 소스 타입
+export type ImageSource = 'camera' | 'gallery';
+
+// 이미지 전송 방식 타입
+// handle: 네이티브가 파일을 보관하고 핸들만 전달 (기본), base64: 작은 썸네일용
+export type ImageTransferMode = 'handle' | 'base64';
+
+// 권한 종류 타입
+export type PermissionType = 'camera' | 'photos' | 'location' | 'notifications' | 'microphone';
+
+// 이미지 선택 결과 타입
+export interface ImagePickerResult {
+  handle: string;  // uploadFile/readFileChunk/releaseFile에 사용하는 파일 핸들 (미사용 30분 후 자동 해제, base64 전송은 1분)
+  base64?: string;  // transfer가 base64일 때만 포함
+  mimeType: string;
+  fileName: string;
+  path: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+// 이미지 크롭 모양 타입 (none: 크롭 없음)
+export type ImageCropShape = 'circle' | 'rect' | 'none';
+
+// 크롭 화면 문구 타입
+export interface ImagePickerLabels {
+  title?: string;
+  choose?: string;
+  cancel?: string;
+}
+
+// 이미지 피커 옵션 타입 (미지정 시 400x400 원형 프로필 크롭)
+export interface ImagePickerOptions {
+  transfer?: ImageTransferMode;  // 기본 'handle' (options 인자 없는 레거시 호출만 base64)
+  cropShape?: ImageCropShape;
+  aspectRatio?: [number, number];  // 예: [4, 3], rect에서 미지정 시 자유 크롭
+  width?: number;  // 출력 크기 (크롭 없으면 최대 크기)
+  height?: number;
+  quality?: number;  // 0 ~ 1
+  multiple?: boolean;  // 갤러리 다중 선택 (크롭 미지원), true면 배열 반환
+  maxCount?: number;
+  maxSizeMB?: number;  // 초과 이미지는 제외
+  labels?: ImagePickerLabels;
+}
+
+// 이미지 선택 요청 타입
+export interface PickImageRequest extends ImagePickerOptions {
+  source: ImageSource;
+  transfer: ImageTransferMode;
+}
+
+// 동영상 썸네일 타입 (첫 프레임 JPEG)
+export interface VideoThumbnail {
+  handle: string;
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// 동영상 선택 결과 타입
+export interface VideoPickerResult {
+  handle: string;  // uploadFile/readFileChunk/releaseFile에 사용하는 파일 핸들 (미사용 30분 후 자동 해제)
+  mimeType: string;
+  fileName: string;
+  path: string;
+  size: number;
+  width: number;
+  height: number;
+  duration: number;  // 초
+  thumbnail: VideoThumbnail | null;  // 생성 실패 시 null
+}
+
+// 동영상 피커 옵션 타입
+export interface VideoPickerOptions {
+  maxDurationSec?: number;  // 카메라 촬영 시간 제한, 갤러리는 초과 시 거부
+  maxSizeMB?: number;  // 초과 시 거부
+}
+
+// 동영상 선택 요청 타입
+export interface PickVideoRequest extends VideoPickerOptions {
+  source: ImageSource;
+}
+
+// 파일 업로드 요청 타입 (multipart/form-data)
+export interface UploadFileRequest {
+  handle: string;
+  url: string;
+  fields?: Record<string, string>;
+  headers?: Record<string, string>;
+  fieldName?: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+}
+
+// 파일 업로드 응답 타입
+export interface UploadFileResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+// 파일 청크 읽기 요청 타입
+export interface ReadFileChunkRequest {
+  handle: string;
+  offset: number;
+  length?: number;
+}
+
+// 파일 청크 읽기 응답 타입
+export interface ReadFileChunkResponse {
+  data: string;  // base64
+  offset: number;
+  length: number;
+  size: number;
+  eof: boolean;
+}
+
+// 권한 상태 값 타입 (limited: iOS 사진 일부 접근, 대략적 위치, 임시 알림)
+export type PermissionState = 'granted' | 'limited' | 'denied' | 'undetermined';
+
+// 권한 상태 타입
+export interface PermissionStatus {
+  status: PermissionState;
+  granted: boolean;
+  denied: boolean;
+  permanentlyDenied: boolean;  // 다시 묻기 불가 → 설정 화면 안내 필요
+  limited: boolean;
+  canAskAgain: boolean;
+}
+
+// 권한 확인/요청 타입 (웹 버전에 따라 type 또는 permissionType 사용)
+export interface CheckPermissionRequest {
+  type?: PermissionType;
+  permissionType?: PermissionType;
+}
+
+// 위치 정확도 타입
+export type LocationAccuracyLevel = 'low' | 'balanced' | 'high';
+
+// 위치 타입
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;  // m
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  timestamp: number;
+}
+
+// 현재 위치 조회 요청 타입
+export interface GetCurrentPositionRequest {
+  accuracy?: LocationAccuracyLevel;
+  timeoutMs?: number;  // 위치 수신 제한 시간 (ms, 0보다 커야 함)
+  maxAgeMs?: number;  // 이 시간 이내의 마지막 위치면 바로 응답
+}
+
+// 위치 추적 요청 타입
+export interface WatchPositionRequest {
+  accuracy?: LocationAccuracyLevel;
+  distanceInterval?: number;  // m
+  timeIntervalMs?: number;  // Android만 지원
+}
+
+// 파일 다운로드 요청 타입
+export interface DownloadFileRequest {
+  url: string;
+  fileName: string;
+}
+
+// 콘텐츠 공유 요청 타입
+export interface ShareContentRequest {
+  title: string;
+  message: string;
+  url: string;
+}
+
+// 카카오 공유 요청 타입
+export interface ShareKakaoRequest {
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  webUrl: string;
+  mobileWebUrl?: string;
+  buttonTitle?: string;
+  executionParams?: Record<string, string>;
+}
+
+// 카카오 공유 응답 타입
+export interface ShareKakaoResponse {
+  success: boolean;
+  fallback?: boolean;
+}
+
+// 딥링크 수신 경로 (cold: 앱 실행 링크, warm: 실행 중 수신 링크, push: 알림 탭, kakao: 카카오톡 공유)
+export type DeepLinkSource = 'cold' | 'warm' | 'push' | 'kakao';
+
+// 딥링크 처리 결과
+// navigated: WebView 이동, held: 로그인 후 재실행 대기, rejected: 허용되지 않은 경로,
+// browser: 인앱 브라우저로 열기, unsupported: 지원하지 않는 링크
+export type DeepLinkOutcome = 'navigated' | 'held' | 'rejected' | 'browser' | 'unsupported';
+
+// 딥링크 수신 기록
+export interface DeepLinkHistoryEntry {
+  url: string | null;
+  source: DeepLinkSource;
+  receivedAt: number;
+  path: string | null;
+  outcome: DeepLinkOutcome;
+  // 링크의 utm_* 파라미터 (캠페인 분석용)
+  campaign?: Record<string, string>;
+}
+
+// 딥링크 기록 조회 요청 타입
+export interface GetDeepLinkHistoryRequest {
+  limit?: number;
+  // 이 시각(ms) 이후 기록만
+  since?: number;
+}
+
+// 딥링크 기록 조회 응답 타입 (최신순)
+export interface GetDeepLinkHistoryResponse {
+  entries: DeepLinkHistoryEntry[];
+}
+
+// 알림 카테고리 (Android 채널 ID, 푸시 data.category)
+export type NotificationCategory = 'reservations' | 'chat' | 'community' | 'marketing' | 'system';
+
+// 카테고리별 알림 수신 설정
+export interface NotificationCategoryPreference {
+  category: NotificationCategory;
+  name: string;
+  description: string;
+  enabled: boolean;
+  // Android 시스템 설정에서 채널이 꺼짐 (openAppSettings로 안내)
+  systemBlocked: boolean;
+}
+
+// 알림 수신 설정 응답 타입
+export interface NotificationPreferencesResponse {
+  categories: NotificationCategoryPreference[];
+}
+
+// 알림 수신 설정 변경 요청 타입
+export interface SetNotificationPreferenceRequest {
+  category: NotificationCategory;
+  enabled: boolean;
+}
+
+// 알림 보관함 항목
+export interface InboxNotification {
+  id: string;
+  title: string | null;
+  body: string | null;
+  data: Record<string, unknown>;
+  category: NotificationCategory;
+  receivedAt: number;
+  read: boolean;
+}
+
+// 알림 보관함 조회 요청 타입
+export interface GetNotificationsRequest {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+// 알림 보관함 조회 응답 타입 (최신순)
+export interface GetNotificationsResponse {
+  notifications: InboxNotification[];
+  unreadCount: number;
+}
+
+// 알림 읽음/삭제 요청 타입 (ids 생략 시 전체)
+export interface NotificationIdsRequest {
+  ids?: string[];
+}
+
+// 앱 기능 정보 타입 (getCapabilities 응답)
+export interface BridgeCapabilities {
+  platform: string;
+  appVersion: string;
+  protocolVersion: number;
+  actions: BridgeActionName[];
+}
+
+/**
+ * 액션별 요청/응답 payload 정의
+ * request: 검증된 웹 → RN 요청 payload (data 및 레거시 최상위 필드), response: RN → 웹 응답의 data
+ */
+export interface BridgeActionMap {
+  showImagePicker: { request: undefined; response: { useWebUI: true } };
+  pickImage: { request: PickImageRequest; response: ImagePickerResult | ImagePickerResult[] };
+  pickImageFromCamera: { request: undefined; response: ImagePickerResult };
+  pickVideo: { request: PickVideoRequest; response: VideoPickerResult };
+  pickImageFromGallery: { request: undefined; response: ImagePickerResult };
+  checkPermission: { request: CheckPermissionRequest; response: PermissionStatus };
+  requestPermission: { request: CheckPermissionRequest; response: PermissionStatus };
+  openAppSettings: { request: undefined; response: { opened: boolean } };
+  getCurrentPosition: { request: GetCurrentPositionRequest; response: GeoPosition };
+  watchPosition: { request: WatchPositionRequest; response: { watchId: string } };
+  clearWatch: { request: { watchId: string }; response: { cleared: boolean } };
+  getFcmToken: { request: undefined; response: string };
+  notifyLoginSuccess: { request: { accessToken: string }; response: undefined };
+  notifyLogout: { request: undefined; response: undefined };
+  downloadFile: { request: DownloadFileRequest; response: undefined };
+  openExternalLink: { request: { url: string }; response: undefined };
+  shareContent: { request: ShareContentRequest; response: undefined };
+  shareKakao: { request: ShareKakaoRequest; response: ShareKakaoResponse };
+  getCapabilities: { request: undefined; response: BridgeCapabilities };
+  // 진행 중 요청 취소 (열린 네이티브 피커/권한 팝업은 닫히지 않음, 피커가 돌아오면 선택 결과를 폐기하고 E_CANCELLED)
+  cancelRequest: { request: { requestId: string }; response: { cancelled: boolean } };
+  uploadFile: { request: UploadFileRequest; response: UploadFileResponse };
+  readFileChunk: { request: ReadFileChunkRequest; response: ReadFileChunkResponse };
+  releaseFile: { request: { handle: string }; response: { released: boolean } };
+  getDeepLinkHistory: { request: GetDeepLinkHistoryRequest; response: GetDeepLinkHistoryResponse };
+  getNotificationPreferences: { request: undefined; response: NotificationPreferencesResponse };
+  setNotificationPreference: { request: SetNotificationPreferenceRequest; response: NotificationPreferencesResponse };
+  getNotifications: { request: GetNotificationsRequest; response: GetNotificationsResponse };
+  markRead: { request: NotificationIdsRequest; response: { unreadCount: number } };
+  clearNotifications: { request: NotificationIdsRequest; response: { unreadCount: number } };
+}
+
+export type BridgeActionName = keyof BridgeActionMap;
+
+export type BridgeRequestPayload<A extends BridgeActionName> = BridgeActionMap[A]['request'];
+
+export type BridgeResponsePayload<A extends BridgeActionName> = BridgeActionMap[A]['response'];
+
+/**
+ * 액션별 타입 기반 응답 이름 (requestId 없는 레거시 호출용)
+ * null이면 응답 없이 실행만 하는 액션
+ */
+export const BRIDGE_ACTION_RESPONSE_TYPES: Record<BridgeActionName, string | null> = {
+  showImagePicker: 'imagePickerResult',
+  pickImage: 'pickImageResult',
+  pickImageFromCamera: 'cameraResult',
+  pickVideo: 'pickVideoResult',
+  pickImageFromGallery: 'galleryResult',
+  checkPermission: 'permissionResult',
+  requestPermission: 'requestPermissionResult',
+  openAppSettings: 'openAppSettingsResult',
+  getCurrentPosition: 'currentPositionResult',
+  watchPosition: 'watchPositionResult',
+  clearWatch: null,
+  getFcmToken: 'fcmTokenResult',
+  notifyLoginSuccess: null,
+  notifyLogout: null,
+  downloadFile: null,
+  openExternalLink: null,
+  shareContent: null,
+  shareKakao: 'shareKakaoResult',
+  getCapabilities: 'capabilitiesResult',
+  cancelRequest: null,
+  uploadFile: 'uploadFileResult',
+  readFileChunk: 'fileChunkResult',
+  releaseFile: null,
+  getDeepLinkHistory: 'deepLinkHistoryResult',
+  getNotificationPreferences: 'notificationPreferencesResult',
+  setNotificationPreference: 'setNotificationPreferenceResult',
+  getNotifications: 'notificationsResult',
+  markRead: 'markReadResult',
+  clearNotifications: 'clearNotificationsResult',
+};
+
+// 앱 상태 변경 이벤트 payload
+export interface AppStateChangeEvent {
+  state: 'active' | 'background';
+  timestamp: number;
+}
+
+// 푸시 알림 수신 이벤트 payload
+export interface NotificationReceivedEvent {
+  id: string;
+  title: string | null;
+  body: string | null;
+  data: Record<string, unknown>;
+  // system: 시스템 알림으로 표시됨, inPage: 시스템 알림 없이 웹에만 전달 (보고 있는 채팅방, 무음 메시지)
+  presentation: 'system' | 'inPage';
+}
+
+// 다운로드 진행 이벤트 payload
+export interface DownloadProgressEvent {
+  url: string;
+  fileName: string;
+  loaded: number;
+  total: number;
+  progress: number;  // 0 ~ 1 (total을 모르면 -1)
+}
+
+// 파일 업로드 진행 이벤트 payload
+export interface UploadProgressEvent {
+  handle: string;
+  url: string;
+  loaded: number;
+  total: number;
+  progress: number;  // 0 ~ 1 (total을 모르면 -1)
+}
+
+// 네트워크 상태 변경 이벤트 payload
+export interface NetworkChangeEvent {
+  isConnected: boolean;
+  isInternetReachable: boolean | null;
+  type: string;
+}
+
+// 딥링크 수신 이벤트 payload
+export interface DeepLinkReceivedEvent {
+  url: string | null;
+  path: string;
+  source: 'link' | 'push';
+  // 로그인 필요로 보류된 딥링크 (이동하지 않음, 웹은 로그인 화면을 띄우고 로그인 후 replayed로 다시 전달됨)
+  held?: boolean;
+  // 로그인 후 재실행된 딥링크
+  replayed?: boolean;
+}
+
+// 위치 변경 이벤트 payload (watchPosition)
+export interface LocationChangeEvent {
+  watchId: string;
+  position: GeoPosition;
+}
+
+/**
+ * 네이티브 → 웹 이벤트 정의 (NativeBridge.on/off로 구독)
+ */
+export interface BridgeEventMap {
+  appStateChange: AppStateChangeEvent;
+  notificationReceived: NotificationReceivedEvent;
+  downloadProgress: DownloadProgressEvent;
+  uploadProgress: UploadProgressEvent;
+  networkChange: NetworkChangeEvent;
+  deepLinkReceived: DeepLinkReceivedEvent;
+  locationChange: LocationChangeEvent;
+}
+
+export type BridgeEventName = keyof BridgeEventMap;
+
+/**
+ * 브릿지 에러 코드 (실패 응답의 code)
+ * - E_CANCELLED: 사용자/웹 취소
+ * - E_PERMISSION_DENIED: 권한 거부 (다시 요청 가능)
+ * - E_PERMISSION_BLOCKED: 권한 영구 거부 (설정 화면 안내 필요)
+ * - E_INVALID_ARGS: 잘못된 요청 payload
+ * - E_UNSUPPORTED: 지원하지 않는 액션/기기 (시뮬레이터 카메라, 위치 서비스 꺼짐 등)
+ * - E_TIMEOUT: 제한 시간 초과
+ * - E_NETWORK: 네트워크 오류
+ * - E_LIMIT_EXCEEDED: 파일 크기/길이 제한 초과
+ * - E_FORBIDDEN_ORIGIN: 허용되지 않은 페이지에서 호출
+ * - E_INTERNAL: 그 외 네이티브 오류
+ */
+export type BridgeErrorCode =
+  | 'E_CANCELLED'
+  | 'E_PERMISSION_DENIED'
+  | 'E_PERMISSION_BLOCKED'
+  | 'E_INVALID_ARGS'
+  | 'E_UNSUPPORTED'
+  | 'E_TIMEOUT'
+  | 'E_NETWORK'
+  | 'E_LIMIT_EXCEEDED'
+  | 'E_FORBIDDEN_ORIGIN'
+  | 'E_INTERNAL';
+
+// 전달 확인 메시지 타입 (웹 → RN, 액션이 아닌 전송 계층 메시지)
+// ready: 주입 스크립트 초기화 시 문서 식별자(pageId) 전달, ack: 처리한 RN → 웹 메시지 id 전달
+export const BRIDGE_READY_MESSAGE_TYPE = '_bridgeReady';
+export const BRIDGE_ACK_MESSAGE_TYPE = '_ackMessages';
+
+// 전달 확인 payload (stale: 다른 문서용이라 폐기한 메시지 id)
+export interface BridgeAckPayload {
+  ids: string[];
+  stale: string[];
+}
+
+// 브릿지 메시지 타입 (웹 → RN)
+export interface BridgeMessage<A extends BridgeActionName = BridgeActionName> {
+  type: A | string;
+  action?: A | string;
+  requestId?: string;
+  pageId?: string;  // 요청을 보낸 문서 식별자 (리로드 후 응답 폐기용)
+  data?: BridgeRequestPayload<A>;
+  source?: ImageSource;  // pickImage용
+  callbackId?: string;
+}
+
+// 브릿지 응답 타입 (RN → 웹, requestId 기반)
+export interface BridgeResponse<A extends BridgeActionName = BridgeActionName> {
+  requestId: string;
+  success: boolean;
+  data: BridgeResponsePayload<A> | null;
+  error?: string;
+  code?: BridgeErrorCode;  // 실패 응답에는 항상 포함
+}
+
+/**
+ * 타입 기반 응답(레거시) 실패 정보
+ * 결과는 기존처럼 null로 전달하고, 에러는 handleNativeResponseByType의 세 번째 인자와
+ * NativeBridgeResponse 이벤트 detail.error로만 추가 전달 (기존 웹 빌드는 무시)
+ */
+export interface BridgeTypedResponseError {
+  code: BridgeErrorCode;
+  message: string;
+}
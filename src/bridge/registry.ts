@@ -0,0 +1,191 @@
+/**
+ * Bridge Action Registry - 브릿지 액션 등록 및 디스패치
+ * 각 액션은 이름, payload 검증, 비동기 구현을 가진 독립 모듈(actions/)로 정의되며,
+ * WebViewContainer는 dispatchBridgeMessage 결과를 웹으로 응답만 합니다.
+ */
+
+import {
+  BridgeActionName,
+  BridgeErrorCode,
+  BridgeEventMap,
+  BridgeEventName,
+  BridgeMessage,
+  BridgeRequestPayload,
+  BridgeResponsePayload,
+} from './protocol';
+import { BridgeOriginPolicy, isOriginAllowed } from './origins';
+import { BridgeError, toBridgeError } from './errors';
+
+// 액션 실행 컨텍스트
+export interface BridgeActionContext {
+  message: BridgeMessage;
+  requestId?: string;
+  // 메시지를 보낸 페이지 URL (origin 검사용)
+  sourceUrl?: string;
+  // 웹에서 cancelRequest(타임아웃/AbortSignal) 시 abort됨
+  signal?: AbortSignal;
+  // 네이티브 → 웹 이벤트 전송
+  emitToWeb: <E extends BridgeEventName>(event: E, payload: BridgeEventMap[E]) => void;
+}
+
+// 브릿지 액션 정의 타입
+export interface BridgeActionHandler<A extends BridgeActionName = BridgeActionName> {
+  name: A;
+  // 호출 허용 origin 정책 (기본값: camter)
+  origins?: BridgeOriginPolicy;
+  // 메시지에서 payload 추출 및 검증 (유효하지 않으면 Error throw → E_INVALID_ARGS)
+  validate?: (message: BridgeMessage) => BridgeRequestPayload<A>;
+  // 액션 구현 (실패는 BridgeError throw, null 반환 시 E_INTERNAL 실패 응답)
+  handle: (
+    payload: BridgeRequestPayload<A>,
+    context: BridgeActionContext
+  ) => Promise<BridgeResponsePayload<A> | null>;
+}
+
+// 등록 가능한 액션 (액션별 BridgeActionHandler의 유니온, 각 액션의 validate/handle 타입은 유지)
+export type AnyBridgeActionHandler = { [A in BridgeActionName]: BridgeActionHandler<A> }[BridgeActionName];
+
+// 디스패치 결과 타입
+export interface BridgeDispatchResult {
+  action: BridgeActionName;
+  success: boolean;
+  data: unknown;
+  error?: string;
+  code?: BridgeErrorCode;
+  // 웹에서 취소한 요청 (응답 전송 불필요)
+  cancelled?: boolean;
+}
+
+// 액션 저장소
+const registry = new Map<string, AnyBridgeActionHandler>();
+
+// 진행 중인 요청 (requestId → AbortController)
+const inFlightRequests = new Map<string, AbortController>();
+
+/**
+ * 액션 정의 (타입 추론용 헬퍼)
+ */
+export const defineBridgeAction = <A extends BridgeActionName>(
+  handler: BridgeActionHandler<A>
+): BridgeActionHandler<A> => handler;
+
+/**
+ * 액션 등록
+ */
+export const registerBridgeAction = (handler: AnyBridgeActionHandler): void => {
+  if (registry.has(handler.name)) {
+    console.warn('[BridgeRegistry] Action already registered, overriding:', handler.name);
+  }
+  registry.set(handler.name, handler);
+};
+
+/**
+ * 등록된 액션 목록
+ */
+export const getRegisteredBridgeActions = (): BridgeActionName[] => {
+  return Array.from(registry.keys()) as BridgeActionName[];
+};
+
+/**
+ * 진행 중인 요청 취소
+ * 취소된 요청의 결과는 웹으로 전송되지 않음
+ */
+export const cancelBridgeRequest = (requestId: string): boolean => {
+  const controller = inFlightRequests.get(requestId);
+  if (!controller) {
+    return false;
+  }
+
+  console.log('[BridgeRegistry] Cancelling request:', requestId);
+  controller.abort();
+  inFlightRequests.delete(requestId);
+  return true;
+};
+
+/**
+ * 액션 실행 (validate 결과를 같은 액션의 handle로 전달)
+ * validate가 없는 액션은 payload 없이 호출
+ */
+const runBridgeAction = async <A extends BridgeActionName>(
+  handler: BridgeActionHandler<A>,
+  message: BridgeMessage,
+  context: BridgeActionContext
+): Promise<BridgeResponsePayload<A> | null> => {
+  let payload: BridgeRequestPayload<A>;
+  try {
+    payload = handler.validate ? handler.validate(message) : (undefined as BridgeRequestPayload<A>);
+  } catch (error) {
+    throw toBridgeError(error, 'E_INVALID_ARGS');
+  }
+
+  return handler.handle(payload, context);
+};
+
+/**
+ * 메시지 디스패치
+ * 등록되지 않은 액션이면 null 반환
+ */
+export const dispatchBridgeMessage = async (
+  actionType: string,
+  message: BridgeMessage,
+  context: BridgeActionContext
+): Promise<BridgeDispatchResult | null> => {
+  const handler = registry.get(actionType);
+  if (!handler) {
+    return null;
+  }
+
+  const action = handler.name;
+  const { requestId, sourceUrl } = context;
+
+  // origin 검사 (신뢰되지 않은 페이지의 호출 차단)
+  const originPolicy = handler.origins || 'camter';
+  if (!isOriginAllowed(sourceUrl, originPolicy)) {
+    console.warn(`[BridgeRegistry] ${action} - forbidden origin (policy: ${originPolicy}):`, sourceUrl);
+    return {
+      action,
+      success: false,
+      data: null,
+      error: `${action} is not allowed from this origin`,
+      code: 'E_FORBIDDEN_ORIGIN',
+    };
+  }
+
+  const controller = new AbortController();
+  if (requestId) {
+    inFlightRequests.set(requestId, controller);
+  }
+
+  try {
+    // validate/handle은 같은 액션 정의 안에서만 짝지어 호출되므로 실행 시에만 액션 타입을 합침
+    const data = await runBridgeAction(handler as BridgeActionHandler, message, {
+      ...context,
+      signal: controller.signal,
+    });
+    if (data === null) {
+      throw new BridgeError('E_INTERNAL', `${action} returned no result`);
+    }
+
+    return {
+      action,
+      success: true,
+      data,
+      cancelled: controller.signal.aborted,
+    };
+  } catch (error) {
+    const bridgeError = toBridgeError(error);
+    console.error(`[BridgeRegistry] ${action} - error (${bridgeError.code}):`, bridgeError.message);
+    return {
+      action,
+      success: false,
+      data: null,
+      error: bridgeError.message,
+      code: bridgeError.code,
+      cancelled: controller.signal.aborted,
+    };
+  } finally {
+    if (requestId && inFlightRequests.get(requestId) === controller) {
+      inFlightRequests.delete(requestId);
+    }
+  }
+};
@@ -4,26 +4,38 @@
  *
  * 이미지 선택 UI는 웹의 BottomModal을 사용하며,
  * RN은 네이티브 카메라/갤러리 기능만 실행합니다.
+ *
+ * 브릿지 액션은 src/bridge/actions에 등록되며,
+ * 컨테이너는 디스패치와 응답 전송만 담당합니다.
+ * RN → 웹 메시지는 src/bridge/messageQueue의 큐(TTL, 페이지 추적, 웹 ack)를 거쳐 전달됩니다.
+ * 토스 결제, Notion 등 외부 페이지가 로드된 동안에는 이벤트/응답을 보내지 않고,
+ * 외부 페이지가 보낸 전송 계층 메시지(ready, ack)도 무시합니다.
  */
 
 import React, { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { StyleSheet, Linking, Share, AppState, AppStateStatus, Platform } from 'react-native';
+import { StyleSheet, Linking, AppState, AppStateStatus, Platform } from 'react-native';
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { ConvertUrl } from '@tosspayments/widget-sdk-react-native/src/utils/convertUrl';
-import * as WebBrowser from 'expo-web-browser';
+import * as Network from 'expo-network';
 
+import { generateInjectedJavaScript } from '../utils/webviewBridge';
+import { sanitizeWebViewPath } from '../utils/deepLinkRoutes';
 import {
-  generateInjectedJavaScript,
-  pickImageFromCamera,
-  pickImageFromGallery,
-  pickImage,
-  checkPermission,
+  dispatchBridgeMessage,
   BridgeMessage,
-  ImagePickerResult,
-} from '../utils/webviewBridge';
-import { getFcmToken, syncFcmTokenToServer } from '../services/fcmService';
-import { downloadFile } from '../services/downloadService';
-import { shareKakaoFeed, initKakaoSDK } from '../services/kakaoShareService';
+  BridgeErrorCode,
+  BridgeEventMap,
+  BridgeEventName,
+  BridgeAckPayload,
+  BridgeResponse,
+  BridgeTypedResponseError,
+  BRIDGE_ACTION_RESPONSE_TYPES,
+  BRIDGE_ACK_MESSAGE_TYPE,
+  BRIDGE_READY_MESSAGE_TYPE,
+} from '../bridge';
+import { createBridgeMessageQueue, BridgeMessageQueue, QueuedBridgeMessage } from '../bridge/messageQueue';
+import { isOriginAllowed } from '../bridge/origins';
+import { openInAppBrowser } from '../services/inAppBrowserService';
 
 interface WebViewContainerProps {
   uri: string;
@@ -31,32 +43,53 @@ interface WebViewContainerProps {
   onLoadStart?: () => void;
   onLoadEnd?: () => void;
   onError?: (error: string) => void;
-  deepLinkPath?: string;
 }
 
 export interface WebViewContainerRef {
   goBack: () => void;
   goForward: () => void;
   reload: () => void;
-  navigateTo: (path: string) => void;
+  // 허용되지 않은 경로면 이동하지 않고 false 반환
+  navigateTo: (path: string) => boolean;
   injectJavaScript: (script: string) => void;
+  emitToWeb: <E extends BridgeEventName>(event: E, payload: BridgeEventMap[E]) => void;
 }
 
 const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
-  ({ uri, onNavigationStateChange, onLoadStart, onLoadEnd, onError, deepLinkPath }, ref) => {
+  ({ uri, onNavigationStateChange, onLoadStart, onLoadEnd, onError }, ref) => {
     const webViewRef = useRef<WebView>(null);
     // URL과 헤더를 포함한 Source 상태 관리
     const [webviewSource, setWebviewSource] = useState<{ uri: string; headers?: Record<string, string> }>({ uri });
     const appState = useRef(AppState.currentState);
 
-    // 메시지 큐: WebView가 준비되지 않았거나 앱이 백그라운드일 때 메시지 저장
-    const messageQueue = useRef<string[]>([]);
     const isWebViewLoaded = useRef(false);
 
+    // 현재 로드된 문서 URL (RN → 웹 전달 대상 origin 검사용)
+    const currentUrl = useRef(uri);
+
     // WebView가 JS를 실행할 수 있는 안정적인 상태인지 여부
     // 로드 완료 && 앱 포그라운드 && 포그라운드 전환 후 안정화 시간 경과
     const isWebViewInteractive = useRef(false);
 
+    // 메시지 큐: 응답/이벤트를 TTL, 문서 식별자와 함께 보관하고 웹 ack까지 재전송
+    // WebView가 준비되지 않았거나 앱이 백그라운드일 때도 유실되지 않음
+    // 이벤트(알림 내용, 위치, 딥링크)는 camter 웹앱에만, 응답은 신뢰 origin에만 전달
+    const messageQueue = useRef<BridgeMessageQueue | null>(null);
+    if (!messageQueue.current) {
+      messageQueue.current = createBridgeMessageQueue({
+        inject: (script) => webViewRef.current?.injectJavaScript(script),
+        isReady: () => isWebViewInteractive.current && !!webViewRef.current,
+        canDeliver: (message: QueuedBridgeMessage) =>
+          isOriginAllowed(currentUrl.current, message.kind === 'event' ? 'camter' : 'trusted'),
+      });
+    }
+
+    useEffect(() => {
+      return () => {
+        messageQueue.current?.dispose();
+      };
+    }, []);
+
     // OAuth 중복 요청 방지용 타임스탬프
     const lastOAuthCallbackTime = useRef(0);
 
@@ -70,6 +103,8 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
 
         if (wasBackground && isForeground) {
           console.log('[WebViewContainer] App came to foreground, stabilizing WebView...');
+          // 안정화 후 큐와 함께 전달됨
+          emitToWeb('appStateChange', { state: 'active', timestamp: Date.now() });
           // 포그라운드 전환 직후에는 WebView가 JS를 놓칠 수 있으므로 약간의 지연 후 활성화
           setTimeout(() => {
             console.log(`[WebViewContainer] Stabilization check: AppState=${appState.current}, Loaded=${isWebViewLoaded.current}`);
@@ -84,6 +119,9 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
         } else if (nextAppState.match(/inactive|background/)) {
           console.log('[WebViewContainer] App went to background/inactive');
           isWebViewInteractive.current = false;
+          if (nextAppState === 'background') {
+            emitToWeb('appStateChange', { state: 'background', timestamp: Date.now() });
+          }
         }
       });
 
@@ -92,125 +130,94 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
       };
     }, []);
 
+    // 네트워크 상태 변경 감지
+    useEffect(() => {
+      const subscription = Network.addNetworkStateListener((state) => {
+        console.log('[WebViewContainer] Network state changed:', state.type, state.isConnected);
+        emitToWeb('networkChange', {
+          isConnected: state.isConnected ?? false,
+          isInternetReachable: state.isInternetReachable ?? null,
+          type: String(state.type),
+        });
+      });
+
+      return () => {
+        subscription.remove();
+      };
+    }, []);
+
     const processMessageQueue = useCallback(() => {
-      if (webViewRef.current && messageQueue.current.length > 0) {
-        console.log(`[WebViewContainer] Processing ${messageQueue.current.length} queued messages`);
-        // 큐에 있는 모든 스크립트 실행
-        while (messageQueue.current.length > 0) {
-          const script = messageQueue.current.shift();
-          if (script) {
-            webViewRef.current.injectJavaScript(script);
-          }
-        }
-      }
+      messageQueue.current?.flush();
     }, []);
 
+    /**
+     * WebView 경로 이동 (허용된 웹앱 경로만, URL은 JSON 이스케이프 후 주입)
+     */
+    const navigateWebView = useCallback((path: string): boolean => {
+      const safePath = sanitizeWebViewPath(path);
+      if (safePath === null) {
+        console.warn('[WebViewContainer] Rejected navigation path:', path);
+        return false;
+      }
+
+      const targetUrl = `${uri.replace(/\/$/, '')}${safePath}`;
+      webViewRef.current?.injectJavaScript(`window.location.href = ${JSON.stringify(targetUrl)}; true;`);
+      return true;
+    }, [uri]);
+
     // ref를 통해 외부에서 WebView 제어
     useImperativeHandle(ref, () => ({
       goBack: () => webViewRef.current?.goBack(),
       goForward: () => webViewRef.current?.goForward(),
       reload: () => webViewRef.current?.reload(),
-      navigateTo: (path: string) => {
-        const baseUrl = uri.replace(/\/$/, '');
-        const targetUrl = `${baseUrl}${path}`;
-        webViewRef.current?.injectJavaScript(`window.location.href = '${targetUrl}';`);
-      },
+      navigateTo: (path: string) => navigateWebView(path),
       injectJavaScript: (script: string) => {
         webViewRef.current?.injectJavaScript(script);
       },
+      emitToWeb,
     }));
 
-    // 딥링크 경로가 있으면 WebView 네비게이션
-    useEffect(() => {
-      if (deepLinkPath && webViewRef.current) {
-        const baseUrl = uri.replace(/\/$/, '');
-        const targetUrl = `${baseUrl}${deepLinkPath}`;
-        webViewRef.current.injectJavaScript(`window.location.href = '${targetUrl}'; true;`);
-      }
-    }, [deepLinkPath, uri]);
-
-    /**
-     * 인앱 브라우저로 외부 링크 열기 (expo-web-browser 사용)
-     */
-    const openInAppBrowser = useCallback(async (url: string) => {
-      try {
-        console.log('[WebViewContainer] Opening in-app browser with expo-web-browser:', url);
-
-        // WebBrowser.openBrowserAsync는 Promise<WebBrowserResult>를 반환
-        // iOS: SFSafariViewController, Android: Chrome Custom Tabs
-        await WebBrowser.openBrowserAsync(url, {
-          // iOS 옵션
-          controlsColor: '#00AC6A', // 완료 버튼 등 색상
-          presentationStyle: WebBrowser.WebBrowserPresentationStyle.PAGE_SHEET,
-
-          // Android 옵션
-          toolbarColor: '#FFFFFF',
-          secondaryToolbarColor: 'black',
-          showTitle: true,
-          enableDefaultShareMenuItem: true,
-        });
-      } catch (error) {
-        console.error('[WebViewContainer] WebBrowser error:', error);
-        // Fallback to external browser (Safari/Chrome App)
-        Linking.openURL(url);
-      }
-    }, []);
-
     /**
-     * WebView 메시지를 JavaScript로 전송 (타입 기반 응답)
+     * 타입 기반 응답 전송 (레거시, requestId 없는 호출)
      */
-    const sendResultToWebView = useCallback((type: string, result: unknown) => {
-      if (webViewRef.current) {
-        const script = `
-          if (window.handleNativeResponseByType) {
-            window.handleNativeResponseByType('${type}', ${JSON.stringify(result)});
-          }
-          true;
-        `;
-        webViewRef.current.injectJavaScript(script);
-      }
+    const sendResultToWebView = useCallback((
+      type: string,
+      result: unknown,
+      pageId: string | null,
+      error?: BridgeTypedResponseError
+    ) => {
+      messageQueue.current?.enqueueTypedResponse(type, result, pageId, error);
     }, []);
 
     /**
      * 네이티브 응답 전송 (requestId 기반)
-     * 웹의 nativeBridge.ts가 window.handleNativeResponse를 등록
-     * 안정성을 위해 재시도 로직 및 큐잉 추가
+     * NativeBridge로 보낸 요청은 주입 스크립트가, 그 외에는 웹의 window.handleNativeResponse가 처리
+     * 요청을 보낸 문서(pageId)가 리로드되었으면 폐기
      */
-    const sendNativeResponse = useCallback((requestId: string, success: boolean, data: unknown, error?: string) => {
-      const response = {
+    const sendNativeResponse = useCallback((
+      requestId: string,
+      success: boolean,
+      data: unknown,
+      pageId: string | null,
+      error?: string,
+      code?: BridgeErrorCode
+    ) => {
+      console.log('[RN->Web] sendNativeResponse:', requestId, 'success:', success);
+      messageQueue.current?.enqueueResponse({
         requestId,
         success,
-        data: success ? data : null,
+        data: success ? (data as BridgeResponse['data']) : null,
         error: success ? undefined : (error || 'Unknown error'),
-      };
+        code: success ? undefined : code,
+      }, pageId);
+    }, []);
 
-      const script = `
-        setTimeout(function() {
-          (function() {
-            try {
-              console.log('[RN->Web] sendNativeResponse:', '${requestId}', 'success:', ${success});
-              if (window.handleNativeResponse) {
-                window.handleNativeResponse(${JSON.stringify(response)});
-                console.log('[RN->Web] handleNativeResponse 호출 완료');
-              } else {
-                console.error('[RN->Web] handleNativeResponse not found!');
-              }
-            } catch (e) {
-              console.error('[RN->Web] Error in sendNativeResponse:', e);
-            }
-          })();
-        }, 100);
-        true;
-      `;
-
-      // WebView가 인터랙티브한 상태일 때만 즉시 전송, 아니면 큐에 저장
-      // (AppState가 active여도 화면 전환 직후에는 불안정할 수 있음)
-      if (isWebViewInteractive.current && webViewRef.current) {
-        webViewRef.current.injectJavaScript(script);
-      } else {
-        console.log('[WebViewContainer] WebView not ready/interactive, queuing message');
-        messageQueue.current.push(script);
-      }
+    /**
+     * 네이티브 → 웹 이벤트 전송
+     * 응답과 같은 큐를 거치므로 안정화 중이나 리로드 중에도 유실되지 않음
+     */
+    const emitToWeb = useCallback(<E extends BridgeEventName>(event: E, payload: BridgeEventMap[E]) => {
+      messageQueue.current?.enqueueEvent(event, payload);
     }, []);
 
     /**
@@ -220,272 +227,82 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
       async (event: WebViewMessageEvent) => {
         try {
           const message: BridgeMessage = JSON.parse(event.nativeEvent.data);
-          const { type, action, data, source, requestId } = message;
-
-          // Web에서 메시지가 왔다는 것은 로드 완료 상태라는 뜻
-          if (!isWebViewLoaded.current) {
-            console.log('[WebViewContainer] Message received, marking WebView as loaded');
-            isWebViewLoaded.current = true;
-          }
+          const { type, action, requestId } = message;
 
           // action 또는 type 사용
           const actionType = action || type;
 
-          console.log('[WebViewContainer] Message received:', actionType, requestId ? `(requestId: ${requestId})` : '');
-
-          switch (actionType) {
-            // pickImage: source 지정
-            // 웹에서 BottomModal UI로 카메라/갤러리 선택 후 source와 함께 호출
-            case 'pickImage': {
-              console.log('[WebViewContainer] pickImage - source:', source, 'requestId:', requestId);
-              try {
-                if (source) {
-                  // source가 지정되면 해당 기능 바로 실행
-                  console.log('[WebViewContainer] pickImage - calling pickImage with source:', source);
-                  const result = await pickImage(source);
-                  console.log('[WebViewContainer] pickImage - result:', result ? `success (base64 length: ${result.base64?.length || 0})` : 'null/cancelled');
-                  if (requestId) {
-                    console.log('[WebViewContainer] pickImage - sending response, success:', result !== null);
-                    sendNativeResponse(requestId, result !== null, result);
-                  } else {
-                    sendResultToWebView('pickImageResult', result);
-                  }
-                } else {
-                  // source가 없으면 에러 반환 (웹에서 UI 선택 필요)
-                  console.warn('[WebViewContainer] pickImage called without source');
-                  if (requestId) {
-                    sendNativeResponse(requestId, false, null, 'source is required (camera or gallery)');
-                  } else {
-                    sendResultToWebView('pickImageResult', null);
-                  }
-                }
-              } catch (error) {
-                console.error('[WebViewContainer] pickImage - error:', (error as Error).message);
-                if (requestId) {
-                  sendNativeResponse(requestId, false, null, (error as Error).message);
-                }
-              }
-              break;
-            }
-
-            // showImagePicker: 웹에서 BottomModal UI 사용하도록 안내
-            // 이 액션은 더 이상 네이티브 UI를 표시하지 않음
-            case 'showImagePicker': {
-              console.log('[WebViewContainer] showImagePicker - use web BottomModal UI instead');
-              if (requestId) {
-                // 웹에서 직접 UI를 처리하도록 알림
-                sendNativeResponse(requestId, true, { useWebUI: true });
-              } else {
-                sendResultToWebView('imagePickerResult', { useWebUI: true });
-              }
-              break;
-            }
-
-            case 'pickImageFromCamera': {
-              try {
-                const result = await pickImageFromCamera();
-                if (requestId) {
-                  sendNativeResponse(requestId, result !== null, result);
-                } else {
-                  sendResultToWebView('cameraResult', result);
-                }
-              } catch (error) {
-                if (requestId) {
-                  sendNativeResponse(requestId, false, null, (error as Error).message);
-                }
-              }
-              break;
-            }
-
-            case 'pickImageFromGallery': {
-              try {
-                const result = await pickImageFromGallery();
-                if (requestId) {
-                  sendNativeResponse(requestId, result !== null, result);
-                } else {
-                  sendResultToWebView('galleryResult', result);
-                }
-              } catch (error) {
-                if (requestId) {
-                  sendNativeResponse(requestId, false, null, (error as Error).message);
-                }
-              }
-              break;
+          // 전송 계층 메시지 (문서 준비, 전달 확인)은 액션으로 디스패치하지 않음
+          // 외부 페이지가 보낸 경우 문서 식별자 변경이나 큐 항목 삭제를 하지 않도록 무시
+          if (actionType === BRIDGE_READY_MESSAGE_TYPE || actionType === BRIDGE_ACK_MESSAGE_TYPE) {
+            if (!isOriginAllowed(event.nativeEvent.url, 'trusted')) {
+              console.warn('[WebViewContainer] Ignoring transport message from untrusted origin:', event.nativeEvent.url);
+              return;
             }
-
-            case 'checkPermission': {
-              try {
-                if (data) {
-                  const permType = (data as { permissionType?: string; type?: string }).permissionType ||
-                    (data as { type?: string }).type;
-                  if (permType) {
-                    const result = await checkPermission(permType as 'camera' | 'photos');
-                    if (requestId) {
-                      sendNativeResponse(requestId, true, result);
-                    } else {
-                      sendResultToWebView('permissionResult', result);
-                    }
-                  }
-                }
-              } catch (error) {
-                if (requestId) {
-                  sendNativeResponse(requestId, false, null, (error as Error).message);
-                }
-              }
-              break;
+          }
+          if (actionType === BRIDGE_READY_MESSAGE_TYPE) {
+            if (message.pageId) {
+              messageQueue.current?.setPageId(message.pageId);
             }
+            return;
+          }
+          if (actionType === BRIDGE_ACK_MESSAGE_TYPE) {
+            const ack = message.data as BridgeAckPayload | undefined;
+            messageQueue.current?.acknowledge(ack?.ids || [], ack?.stale || []);
+            return;
+          }
 
-            case 'getFcmToken': {
-              try {
-                const token = await getFcmToken();
-                if (requestId) {
-                  sendNativeResponse(requestId, token !== null, token);
-                } else {
-                  sendResultToWebView('fcmTokenResult', token);
-                }
-              } catch (error) {
-                if (requestId) {
-                  sendNativeResponse(requestId, false, null, (error as Error).message);
-                }
-              }
-              break;
-            }
+          // Web에서 메시지가 왔다는 것은 로드 완료 상태라는 뜻
+          // (ready 메시지는 콘텐츠 로드 전에 오므로 제외)
+          if (!isWebViewLoaded.current) {
+            console.log('[WebViewContainer] Message received, marking WebView as loaded');
+            isWebViewLoaded.current = true;
+          }
 
-            case 'notifyLoginSuccess': {
-              console.log('[WebViewContainer] notifyLoginSuccess received');
-              // message에서 직접 accessToken 추출 (data가 아님!)
-              const accessToken = (message as any).accessToken || (data as any)?.accessToken;
-              console.log('[WebViewContainer] accessToken:', accessToken ? 'present' : 'missing');
-
-              if (accessToken) {
-                // 로그인 성공 시 FCM 토큰 서버 동기화
-                console.log('[WebViewContainer] Fetching FCM token...');
-                const fcmToken = await getFcmToken();
-                console.log('[WebViewContainer] FCM token:', fcmToken ? `obtained (${fcmToken.substring(0, 20)}...)` : 'null');
-
-                if (fcmToken) {
-                  console.log('[WebViewContainer] Syncing FCM token to server...');
-                  await syncFcmTokenToServer(fcmToken, accessToken);
-                  console.log('[WebViewContainer] FCM token sync completed');
-                } else {
-                  console.warn('[WebViewContainer] FCM token not available');
-                }
-              } else {
-                console.warn('[WebViewContainer] accessToken not found in message');
-              }
-              break;
-            }
+          // 응답 대상 문서 (주입 스크립트를 거치지 않은 레거시 메시지는 현재 문서)
+          const pageId = message.pageId || messageQueue.current?.getPageId() || null;
 
-            case 'notifyLogout': {
-              // 로그아웃 시 필요한 처리
-              console.log('[WebViewContainer] User logged out');
-              break;
-            }
+          console.log('[WebViewContainer] Message received:', actionType, requestId ? `(requestId: ${requestId})` : '');
 
-            case 'downloadFile': {
-              if (data) {
-                const { url, fileName } = data as { url: string; fileName: string };
-                await downloadFile(url, fileName);
-              }
-              break;
-            }
+          const result = await dispatchBridgeMessage(actionType, message, {
+            message,
+            requestId,
+            sourceUrl: event.nativeEvent.url,
+            emitToWeb,
+          });
 
-            case 'openExternalLink': {
-              if (data) {
-                const { url } = data as { url: string };
-                // 인앱 브라우저로 열기 (앱 딥링크는 제외)
-                if (url.startsWith('http://') || url.startsWith('https://')) {
-                  await openInAppBrowser(url);
-                } else {
-                  // 앱 딥링크는 외부 앱으로 열기
-                  const supported = await Linking.canOpenURL(url);
-                  if (supported) {
-                    await Linking.openURL(url);
-                  } else {
-                    console.warn('[WebViewContainer] Cannot open URL:', url);
-                  }
-                }
-              }
-              break;
+          if (!result) {
+            console.warn('[WebViewContainer] Unknown message type:', actionType);
+            if (requestId) {
+              sendNativeResponse(requestId, false, null, pageId, `Unknown action: ${actionType}`, 'E_UNSUPPORTED');
             }
+            return;
+          }
 
-            case 'shareContent': {
-              if (data) {
-                const { title, message: shareMessage, url: shareUrl } = data as {
-                  title: string;
-                  message: string;
-                  url: string;
-                };
-                await Share.share({
-                  title,
-                  message: shareUrl ? `${shareMessage}\n${shareUrl}` : shareMessage,
-                  url: shareUrl,
-                });
-              }
-              break;
-            }
+          // 웹에서 취소한 요청은 이미 reject 처리되었으므로 응답하지 않음
+          if (result.cancelled) {
+            console.log('[WebViewContainer] Request cancelled by web, dropping response:', actionType, requestId);
+            return;
+          }
 
-            case 'shareKakao': {
-              try {
-                // data 자체가 KakaoShareData 객체임 (nativeBridge.ts에서 { data: shareData } 형태로 보냄 -> message.data = shareData)
-                // 타입체크를 위해 optional chaining 사용
-                const shareParams = data as { title: string; description?: string; imageUrl?: string; webUrl: string; mobileWebUrl?: string; buttonTitle?: string; executionParams?: Record<string, string> } | undefined;
-
-                console.log('[WebViewContainer] shareKakao data:', JSON.stringify(shareParams));
-
-                if (shareParams && shareParams.title && shareParams.webUrl) {
-                  // 카카오 SDK를 통한 공유 (딥링크 지원)
-                  const success = await shareKakaoFeed({
-                    title: shareParams.title,
-                    description: shareParams.description,
-                    imageUrl: shareParams.imageUrl,
-                    webUrl: shareParams.webUrl,
-                    mobileWebUrl: shareParams.mobileWebUrl,
-                    buttonTitle: shareParams.buttonTitle || '자세히 보기',
-                    executionParams: shareParams.executionParams,
-                  });
-
-                  if (requestId) {
-                    sendNativeResponse(requestId, success, { success });
-                  }
-                } else {
-                  console.warn('[WebViewContainer] shareKakao - invalid data:', data);
-                  if (requestId) {
-                    sendNativeResponse(requestId, false, null, 'Invalid share data');
-                  }
-                }
-              } catch (error) {
-                console.error('[WebViewContainer] Kakao share error:', error);
-                // 카카오 SDK 실패 시 일반 공유로 fallback
-                try {
-                  const shareParams = data as { title: string; webUrl: string } | undefined;
-                  if (shareParams && shareParams.title && shareParams.webUrl) {
-                    await Share.share({
-                      title: shareParams.title,
-                      message: `${shareParams.title}\n${shareParams.webUrl}`,
-                      url: shareParams.webUrl,
-                    });
-                    if (requestId) {
-                      sendNativeResponse(requestId, true, { success: true, fallback: true });
-                    }
-                  }
-                } catch (fallbackError) {
-                  if (requestId) {
-                    sendNativeResponse(requestId, false, null, (error as Error).message);
-                  }
-                }
-              }
-              break;
+          if (requestId) {
+            sendNativeResponse(requestId, result.success, result.data, pageId, result.error, result.code);
+          } else {
+            // requestId가 없는 레거시 호출은 타입 기반 응답
+            const responseType = BRIDGE_ACTION_RESPONSE_TYPES[result.action];
+            if (responseType) {
+              // 실패 시 결과는 기존처럼 null, 에러 코드/메시지는 추가 인자로 전달
+              const error = result.success
+                ? undefined
+                : { code: result.code || 'E_INTERNAL', message: result.error || 'Unknown error' };
+              sendResultToWebView(responseType, result.success ? result.data : null, pageId, error);
             }
-
-            default:
-              console.warn('[WebViewContainer] Unknown message type:', actionType);
           }
         } catch (error) {
           console.error('[WebViewContainer] Message handling error:', error);
         }
       },
-      [sendResultToWebView, sendNativeResponse]
+      [sendResultToWebView, sendNativeResponse, emitToWeb]
     );
 
     /**
@@ -495,6 +312,7 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
       (navState: { url: string; title?: string }) => {
         // 디버깅: 모든 navigation 변경 로깅
         console.log('[WebViewContainer][NAV] URL changed:', navState.url);
+        currentUrl.current = navState.url;
 
         // OAuth 관련 URL 상세 로깅
         if (navState.url.includes('oauth') || navState.url.includes('auth') || navState.url.includes('apple')) {
@@ -625,7 +443,7 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
       }
 
       return true;
-    }, [webviewSource, openInAppBrowser]);
+    }, [webviewSource]);
 
     /**
      * 에러 핸들러
@@ -698,7 +516,8 @@ const WebViewContainer = forwardRef<WebViewContainerRef, WebViewContainerProps>(
         injectedJavaScriptBeforeContentLoaded={generateInjectedJavaScript()}
         onMessage={handleMessage}
         onNavigationStateChange={handleNavigationStateChange}
-        onLoadStart={() => {
+        onLoadStart={(syntheticEvent) => {
+          currentUrl.current = syntheticEvent.nativeEvent.url;
           isWebViewLoaded.current = false;
           isWebViewInteractive.current = false;
           onLoadStart?.();
@@ -1,19 +1,28 @@
 /**
  * useDeepLink - 딥링크 처리 훅
- * URL 스킴: camter://, camterapp://, camterguest://, kakao{appkey}://
+ * URL 스킴: camter://, camteropen://, camterapp://, camterguest://, kakao{appkey}://
+ * - camterapp://: 파트너 예약 관리, camterguest://: 게스트 예약 관리 (진입 경로는 EXPO_PUBLIC_*_RESERVATION_PATH)
+ * 유니버설 링크/앱 링크: https://camter.co.kr, https://www.camter.co.kr, https://camter-client.vercel.app
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import * as Linking from 'expo-linking';
-import { Platform } from 'react-native';
+
+import {
+  DEEP_LINK_ROUTE_PARAMS,
+  DeepLinkRouteParams,
+  buildRoutePath,
+  getUniversalLinkPath,
+  isWebAppPath,
+  matchRoutePath,
+} from '../utils/deepLinkRoutes';
+import { openInAppBrowser } from '../services/inAppBrowserService';
+import { recordDeepLink } from '../services/deepLinkHistoryService';
+import { DeepLinkSource } from '../bridge/protocol';
 
 // 딥링크 파라미터 타입
-export interface DeepLinkParams {
-  productId?: string;
-  eventId?: string;
-  programId?: string;
-  postId?: string;
-  reservationId?: string;
+// ID 파라미터(productId, postId, chatRoomId 등)는 deepLinkRoutes 테이블 기준
+export interface DeepLinkParams extends DeepLinkRouteParams {
   screen?: string;
   // OAuth 관련
   code?: string;
@@ -27,16 +36,29 @@ export interface DeepLinkResult {
   path: string | null;
   params: DeepLinkParams;
   webViewPath: string | null;
+  // 수신 경로 (cold: 앱 실행 링크, warm: 실행 중 수신, kakao: 카카오톡 공유)
+  source: DeepLinkSource | null;
 }
 
 // 지원하는 URL 스킴
 const SUPPORTED_SCHEMES = [
   'camter://',
+  'camteropen://',
   'camterapp://',
   'camterguest://',
   'exp://', // Expo 개발 모드
 ];
 
+// 스킴별 진입 화면 (ID 파라미터/경로 없이 열린 경우에만 사용, 미설정 시 루트로 이동)
+// 웹 경로는 웹팀 라우트 기준으로 환경변수에서 설정
+const SCHEME_LANDING_PATHS: Record<string, string> = {
+  'camterapp://': process.env.EXPO_PUBLIC_PARTNER_RESERVATION_PATH || '',
+  'camterguest://': process.env.EXPO_PUBLIC_GUEST_RESERVATION_PATH || '',
+};
+
+// 같은 URL 중복 처리 방지 시간 (초기 URL과 url 이벤트가 함께 오는 경우)
+const DEDUPE_WINDOW_MS = 3000;
+
 // 카카오 앱키 (환경변수에서 가져오거나 기본값 사용)
 const KAKAO_JS_APP_KEY = process.env.EXPO_PUBLIC_KAKAO_APP_KEY || 'b0892b60f070bd0742c5cb6f792dac5d';
 // 카카오 Native App Key (OAuth용)
@@ -60,22 +82,12 @@ const parseUrlParams = (url: string): DeepLinkParams => {
       return params;
     }
 
-    // 각 파라미터 추출
-    if (searchParams.has('productId')) {
-      params.productId = searchParams.get('productId') || undefined;
-    }
-    if (searchParams.has('eventId')) {
-      params.eventId = searchParams.get('eventId') || undefined;
-    }
-    if (searchParams.has('programId')) {
-      params.programId = searchParams.get('programId') || undefined;
-    }
-    if (searchParams.has('postId')) {
-      params.postId = searchParams.get('postId') || undefined;
-    }
-    if (searchParams.has('reservationId')) {
-      params.reservationId = searchParams.get('reservationId') || undefined;
-    }
+    // 라우트 파라미터 추출
+    DEEP_LINK_ROUTE_PARAMS.forEach((param) => {
+      if (searchParams.has(param)) {
+        params[param] = searchParams.get(param) || undefined;
+      }
+    });
     if (searchParams.has('screen')) {
       params.screen = searchParams.get('screen') || undefined;
     }
@@ -114,6 +126,12 @@ const convertToWebViewPath = (url: string, params: DeepLinkParams): string | nul
       }
     }
 
+    // 유니버설 링크는 호스트를 제외한 경로 사용
+    const universalLinkPath = getUniversalLinkPath(url);
+    if (universalLinkPath) {
+      path = universalLinkPath;
+    }
+
     // 카카오 스킴 처리 (JS Key 또는 Native Key)
     if (url.startsWith(`kakao${KAKAO_JS_APP_KEY}://`)) {
       path = url.replace(`kakao${KAKAO_JS_APP_KEY}://`, '');
@@ -128,6 +146,10 @@ const convertToWebViewPath = (url: string, params: DeepLinkParams): string | nul
       if (parts[0] && !parts[0].includes('=')) {
         path = '/' + parts.slice(1).join('/');
       }
+    } else if (path && !path.startsWith('/')) {
+      // 호스트만 있는 링크 (camteropen://action, camter://home?productId=1)는 루트 경로 기준
+      const queryIndex = path.indexOf('?');
+      path = queryIndex === -1 ? '/' : `/${path.slice(queryIndex)}`;
     }
 
     // URL Fragment 처리 (OAuth 토큰이 fragment에 있는 경우)
@@ -145,32 +167,38 @@ const convertToWebViewPath = (url: string, params: DeepLinkParams): string | nul
 
     // 쿼리 파라미터가 있는 경우 경로와 분리
     const [basePath] = path.split('?');
+    const queryIndex = path.indexOf('?');
+    const query = queryIndex === -1 ? '' : path.slice(queryIndex);
 
     // 파라미터 기반 경로 생성
-    if (params.productId) {
-      return `/product/${params.productId}`;
-    }
-    if (params.eventId) {
-      return `/event/${params.eventId}`;
-    }
-    if (params.programId) {
-      return `/program/${params.programId}`;
-    }
-    if (params.postId) {
-      return `/community/post/${params.postId}`;
-    }
-    if (params.reservationId) {
-      return `/reservation-detail/${params.reservationId}`;
+    const routePath = buildRoutePath(params);
+    if (routePath) {
+      return routePath;
     }
 
     // OAuth 콜백 처리
     if (params.code) {
       const oauthPath = basePath || '/oauth/callback';
-      return `${oauthPath}?code=${params.code}${params.state ? `&state=${params.state}` : ''}`;
+      const oauthQuery = new URLSearchParams({ code: params.code });
+      if (params.state) {
+        oauthQuery.set('state', params.state);
+      }
+      return `${oauthPath}?${oauthQuery.toString()}`;
+    }
+
+    // 링크에 경로가 있으면 쿼리와 함께 그대로 이동
+    if (basePath && basePath !== '/') {
+      return `${basePath}${query}`;
+    }
+
+    // 스킴별 진입 화면 (camterapp://action → 파트너 예약 관리)
+    const landingScheme = Object.keys(SCHEME_LANDING_PATHS).find((scheme) => url.startsWith(scheme));
+    if (landingScheme && SCHEME_LANDING_PATHS[landingScheme]) {
+      return `${SCHEME_LANDING_PATHS[landingScheme]}${query}`;
     }
 
     // 기본 경로 반환
-    return basePath || '/';
+    return `/${query}`;
   } catch (error) {
     console.error('[useDeepLink] Path conversion error:', error);
     return null;
@@ -186,52 +214,85 @@ export const useDeepLink = () => {
     path: null,
     params: {},
     webViewPath: null,
+    source: null,
   });
   const [isReady, setIsReady] = useState(false);
-  const processedUrls = useRef<Set<string>>(new Set());
+  // URL별 마지막 처리 시각 (DEDUPE_WINDOW_MS 이내 재수신만 무시)
+  const processedUrls = useRef<Map<string, number>>(new Map());
 
   /**
    * URL 처리
    */
-  const processUrl = useCallback((url: string | null) => {
+  const processUrl = useCallback((url: string | null, isInitial: boolean) => {
     if (!url) {
       console.log('[useDeepLink] No URL to process');
       return;
     }
 
-    // 이미 처리된 URL인지 확인 (중복 방지)
-    if (processedUrls.current.has(url)) {
+    // 최근에 처리된 URL인지 확인 (중복 방지)
+    const now = Date.now();
+    const lastProcessedAt = processedUrls.current.get(url);
+    if (lastProcessedAt !== undefined && now - lastProcessedAt < DEDUPE_WINDOW_MS) {
       console.log('[useDeepLink] URL already processed:', url);
       return;
     }
 
     console.log('[useDeepLink] Processing URL:', url);
-    processedUrls.current.add(url);
+    processedUrls.current.forEach((processedAt, processedUrl) => {
+      if (now - processedAt >= DEDUPE_WINDOW_MS) {
+        processedUrls.current.delete(processedUrl);
+      }
+    });
+    processedUrls.current.set(url, now);
+
+    const isKakaoLink =
+      url.startsWith(`kakao${KAKAO_JS_APP_KEY}://`) ||
+      url.startsWith(`kakao${KAKAO_NATIVE_APP_KEY}://`);
+    const source: DeepLinkSource = isKakaoLink ? 'kakao' : isInitial ? 'cold' : 'warm';
+
+    // 유니버설 링크: 웹앱 경로가 아니면 인앱 브라우저로 열기
+    const universalLinkPath = getUniversalLinkPath(url);
+    if (universalLinkPath !== null && !isWebAppPath(universalLinkPath)) {
+      console.log('[useDeepLink] Universal link outside web app, opening in browser:', url);
+      recordDeepLink(url, source, null, 'browser');
+      openInAppBrowser(url);
+      return;
+    }
 
     // 지원하는 스킴인지 확인
     const isSupported =
+      universalLinkPath !== null ||
       SUPPORTED_SCHEMES.some((scheme) => url.startsWith(scheme)) ||
-      url.startsWith(`kakao${KAKAO_JS_APP_KEY}://`) ||
-      url.startsWith(`kakao${KAKAO_NATIVE_APP_KEY}://`);
+      isKakaoLink;
 
     if (!isSupported) {
       console.log('[useDeepLink] Unsupported scheme:', url);
+      recordDeepLink(url, source, null, 'unsupported');
       return;
     }
 
     // 파라미터 파싱
     const params = parseUrlParams(url);
+    // 쿼리에 ID가 없으면 경로에서 추출 (camter://app/product/123)
+    const pathMatch = matchRoutePath('/' + url.replace(/^[a-z0-9+.-]+:\/\/[^/?#]*\/?/i, ''));
+    if (pathMatch && !buildRoutePath(params)) {
+      Object.assign(params, pathMatch.params);
+    }
     console.log('[useDeepLink] Parsed params:', params);
 
     // WebView 경로 변환
     const webViewPath = convertToWebViewPath(url, params);
     console.log('[useDeepLink] WebView path:', webViewPath);
+    if (!webViewPath) {
+      recordDeepLink(url, source, null, 'unsupported');
+    }
 
     setDeepLinkResult({
       url,
       path: url.replace(/^[a-z]+:\/\//, ''),
       params,
       webViewPath,
+      source,
     });
   }, []);
 
@@ -245,7 +306,7 @@ export const useDeepLink = () => {
         console.log('[useDeepLink] Initial URL:', initialUrl);
 
         if (initialUrl) {
-          processUrl(initialUrl);
+          processUrl(initialUrl, true);
         }
 
         setIsReady(true);
@@ -264,7 +325,7 @@ export const useDeepLink = () => {
   useEffect(() => {
     const subscription = Linking.addEventListener('url', (event) => {
       console.log('[useDeepLink] URL event:', event.url);
-      processUrl(event.url);
+      processUrl(event.url, false);
     });
 
     return () => {
@@ -281,18 +342,25 @@ export const useDeepLink = () => {
       path: null,
       params: {},
       webViewPath: null,
+      source: null,
     });
   }, []);
 
   /**
    * 특정 경로로 앱 내 딥링크 생성
+   * 라우트 테이블에 있는 웹 경로는 ID 쿼리 형태로 변환 (/product/123 → camter://product?productId=123)
    */
   const createDeepLink = useCallback((path: string, params?: Record<string, string>): string => {
-    const scheme = Platform.OS === 'ios' ? 'camterapp://' : 'camter://';
-    let url = `${scheme}${path}`;
-
-    if (params && Object.keys(params).length > 0) {
-      const queryString = new URLSearchParams(params).toString();
+    // camterapp://는 파트너 예약 관리 진입용이므로 공통 camter:// 사용
+    const scheme = 'camter://';
+    const routeMatch = matchRoutePath(path);
+    const query = { ...routeMatch?.params, ...params };
+    let url = routeMatch
+      ? `${scheme}${routeMatch.route.path.split('/')[1]}`
+      : `${scheme}${path}`;
+
+    if (Object.keys(query).length > 0) {
+      const queryString = new URLSearchParams(query).toString();
       url += `?${queryString}`;
     }
 
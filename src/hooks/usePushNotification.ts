@@ -7,20 +7,34 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { AppState, AppStateStatus, Platform } from 'react-native';
+import messaging from '@react-native-firebase/messaging';
 
 import {
   getFcmToken,
   getStoredFcmToken,
   syncFcmTokenToServer,
-  configureNotificationPresentation,
-  extractDeepLinkFromNotification,
-  clearBadge,
+  extractDeepLinkFromData,
+  isAuthRequiredData,
   clearFcmToken,
 } from '../services/fcmService';
+import {
+  IncomingNotification,
+  fromExpoNotification,
+  fromRemoteMessage,
+  markNotificationOpened,
+  startNotificationPipeline,
+} from '../services/notificationService';
+import {
+  addToInbox,
+  clearNotifications,
+  syncPresentedNotifications,
+} from '../services/notificationInboxService';
+import { NotificationReceivedEvent } from '../bridge/protocol';
 
 interface UsePushNotificationOptions {
-  onNotificationReceived?: (notification: Notifications.Notification) => void;
-  onDeepLink?: (path: string) => void;
+  // 포그라운드 수신 알림 (notificationService에서 중복 제거 후 웹 전달 대상만)
+  onNotificationReceived?: (notification: NotificationReceivedEvent) => void;
+  onDeepLink?: (path: string, requiresAuth: boolean) => void;
 }
 
 interface UsePushNotificationResult {
@@ -129,8 +143,8 @@ export const usePushNotification = (
     await clearFcmToken();
     setFcmToken(null);
 
-    // 배지 초기화
-    await clearBadge();
+    // 알림 보관함 비우기 (배지도 0으로 갱신)
+    await clearNotifications();
   }, []);
 
   /**
@@ -140,7 +154,8 @@ export const usePushNotification = (
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
       if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
         console.log('[usePushNotification] App came to foreground');
-        await clearBadge();
+        // 알림 센터에 남은 알림을 보관함에 반영 (배지는 읽지 않은 수로 갱신)
+        await syncPresentedNotifications();
       }
       appState.current = nextAppState;
     };
@@ -159,9 +174,6 @@ export const usePushNotification = (
       try {
         console.log('[usePushNotification] Initializing...');
 
-        // 알림 표시 설정
-        configureNotificationPresentation();
-
         // 저장된 토큰 확인
         const storedToken = await getStoredFcmToken();
         if (storedToken && mounted) {
@@ -193,31 +205,63 @@ export const usePushNotification = (
    * 알림 리스너 설정
    */
   useEffect(() => {
-    // 앱이 포그라운드일 때 알림 수신
-    const receivedSubscription = Notifications.addNotificationReceivedListener((notification) => {
+    // 앱이 포그라운드일 때 알림 수신 (FCM/expo 통합 파이프라인)
+    const stopNotificationPipeline = startNotificationPipeline((notification) => {
       console.log('[usePushNotification] Notification received');
-      setLastNotification(notification);
+      // 무음 데이터 메시지는 보관하지 않음
+      if (notification.title || notification.body) {
+        addToInbox(notification);
+      }
       onNotificationReceivedRef.current?.(notification);
     });
 
+    // 알림 탭 처리 (expo 응답 리스너와 FCM 리스너가 같은 탭을 받아도 메시지 ID로 한 번만 처리)
+    const handleNotificationOpened = (notification: IncomingNotification) => {
+      if (!markNotificationOpened(notification)) return;
+
+      // 탭한 알림은 읽음으로 보관
+      addToInbox(notification, true);
+
+      // 딥링크 경로 추출
+      const deepLinkPath = extractDeepLinkFromData(notification.data);
+      if (deepLinkPath && onDeepLinkRef.current) {
+        console.log('[usePushNotification] Deep link from notification:', deepLinkPath);
+        onDeepLinkRef.current(deepLinkPath, isAuthRequiredData(notification.data));
+      }
+    };
+
     // 사용자가 알림을 탭했을 때
     const responseSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
       console.log('[usePushNotification] Notification tapped');
 
       const notification = response.notification;
       setLastNotification(notification);
+      handleNotificationOpened(fromExpoNotification(notification));
+    });
 
-      // 딥링크 경로 추출
-      const deepLinkPath = extractDeepLinkFromNotification(notification);
-      if (deepLinkPath && onDeepLinkRef.current) {
-        console.log('[usePushNotification] Deep link from notification:', deepLinkPath);
-        onDeepLinkRef.current(deepLinkPath);
-      }
+    // 백그라운드 상태에서 FCM 알림 탭 시
+    const unsubscribeOpenedApp = messaging().onNotificationOpenedApp((remoteMessage) => {
+      console.log('[usePushNotification] FCM notification opened app:', remoteMessage.messageId);
+      handleNotificationOpened(fromRemoteMessage(remoteMessage));
     });
 
+    // 앱이 종료된 상태에서 FCM 알림으로 열렸을 때
+    messaging()
+      .getInitialNotification()
+      .then((remoteMessage) => {
+        if (remoteMessage) {
+          console.log('[usePushNotification] FCM initial notification:', remoteMessage.messageId);
+          handleNotificationOpened(fromRemoteMessage(remoteMessage));
+        }
+      })
+      .catch((error) => {
+        console.error('[usePushNotification] Initial notification error:', error);
+      });
+
     return () => {
-      receivedSubscription.remove();
+      stopNotificationPipeline();
       responseSubscription.remove();
+      unsubscribeOpenedApp();
     };
   }, []); // 빈 dependency array - 마운트 시 한 번만 실행
 
@@ -0,0 +1,122 @@
+/**
+ * Deep Link Auth Service - 로그인이 필요한 딥링크 보류/재실행
+ * 로그아웃 상태에서 받은 로그인 필요 딥링크(링크, 푸시 탭)를 보관했다가
+ * 웹이 notifyLoginSuccess를 보내면 원래 목적지로 다시 이동시킵니다.
+ *
+ * 로그인 상태는 notifyLoginSuccess/notifyLogout 기준으로 저장되어 앱 재시작 후에도 유지됩니다.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DeepLinkReceivedEvent } from '../bridge/protocol';
+import { isAuthRequiredPath } from '../utils/deepLinkRoutes';
+
+// Storage Keys
+const STORAGE_KEYS = {
+  LOGGED_IN: '@camter/logged_in',
+};
+
+// 보류 딥링크 유효 시간 (로그인에 이보다 오래 걸리면 폐기)
+const PENDING_DEEP_LINK_TTL_MS = 10 * 60 * 1000;
+
+// 보류 중인 딥링크
+interface PendingDeepLink {
+  link: DeepLinkReceivedEvent;
+  expiresAt: number;
+}
+
+// 로그인 후 재실행 리스너
+type DeepLinkReplayListener = (link: DeepLinkReceivedEvent) => void;
+
+let isLoggedIn = false;
+let isLoaded = false;
+let pendingDeepLink: PendingDeepLink | null = null;
+const replayListeners = new Set<DeepLinkReplayListener>();
+
+/**
+ * 저장된 로그인 상태 로드 (앱 시작 시 1회)
+ */
+export const loadAuthState = async (): Promise<boolean> => {
+  if (isLoaded) return isLoggedIn;
+
+  try {
+    isLoggedIn = (await AsyncStorage.getItem(STORAGE_KEYS.LOGGED_IN)) === 'true';
+  } catch (error) {
+    console.error('[DeepLinkAuth] Load auth state error:', error);
+  }
+  isLoaded = true;
+  console.log('[DeepLinkAuth] Auth state loaded, loggedIn:', isLoggedIn);
+  return isLoggedIn;
+};
+
+const saveAuthState = async (loggedIn: boolean): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.LOGGED_IN, loggedIn ? 'true' : 'false');
+  } catch (error) {
+    console.error('[DeepLinkAuth] Save auth state error:', error);
+  }
+};
+
+/**
+ * 로그인 필요 딥링크면 보류 (로그아웃 상태일 때만)
+ * 보류되면 true 반환, 새 딥링크가 오면 이전 보류 딥링크를 대체합니다.
+ * 보류된 딥링크로는 이동하지 않으며(웹은 held 이벤트로 로그인 화면을 띄움), 로그인 후 재실행 때 한 번만 이동합니다.
+ */
+export const holdDeepLinkIfNeeded = (link: DeepLinkReceivedEvent, requiresAuth = false): boolean => {
+  if (isLoggedIn || !(requiresAuth || isAuthRequiredPath(link.path))) {
+    return false;
+  }
+
+  pendingDeepLink = { link, expiresAt: Date.now() + PENDING_DEEP_LINK_TTL_MS };
+  console.log('[DeepLinkAuth] Holding deep link until login:', link.path);
+  return true;
+};
+
+/**
+ * 로그인 성공 처리 (보류 딥링크가 유효하면 재실행)
+ */
+export const handleLoginSuccess = async (): Promise<void> => {
+  isLoggedIn = true;
+  isLoaded = true;
+  await saveAuthState(true);
+
+  const pending = pendingDeepLink;
+  pendingDeepLink = null;
+  if (!pending) return;
+
+  if (pending.expiresAt <= Date.now()) {
+    console.log('[DeepLinkAuth] Pending deep link expired:', pending.link.path);
+    return;
+  }
+
+  console.log('[DeepLinkAuth] Replaying deep link after login:', pending.link.path);
+  replayListeners.forEach((listener) => listener(pending.link));
+};
+
+/**
+ * 로그아웃 처리 (보류 딥링크도 폐기)
+ */
+export const handleLogout = async (): Promise<void> => {
+  isLoggedIn = false;
+  isLoaded = true;
+  pendingDeepLink = null;
+  await saveAuthState(false);
+};
+
+/**
+ * 로그인 후 재실행 구독 (해제 함수 반환)
+ */
+export const onDeepLinkReplay = (listener: DeepLinkReplayListener): (() => void) => {
+  replayListeners.add(listener);
+  return () => {
+    replayListeners.delete(listener);
+  };
+};
+
+export default {
+  loadAuthState,
+  holdDeepLinkIfNeeded,
+  handleLoginSuccess,
+  handleLogout,
+  onDeepLinkReplay,
+};
@@ -0,0 +1,111 @@
+/**
+ * Deep Link History Service - 딥링크 수신 기록
+ * 링크/푸시/카카오 공유로 받은 딥링크의 수신 경로, 시각, 이동 경로, 처리 결과를 저장합니다.
+ * 웹은 getDeepLinkHistory로 조회해 캠페인 유입을 집계합니다.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  DeepLinkHistoryEntry,
+  DeepLinkOutcome,
+  DeepLinkSource,
+  GetDeepLinkHistoryRequest,
+} from '../bridge/protocol';
+
+// Storage Keys
+const STORAGE_KEYS = {
+  HISTORY: '@camter/deep_link_history',
+};
+
+// 최대 보관 개수 (초과 시 오래된 기록부터 삭제)
+const MAX_HISTORY_ENTRIES = 100;
+
+// 메모리 캐시 (최신순)
+let history: DeepLinkHistoryEntry[] | null = null;
+// 저장 작업 직렬화
+let writeChain: Promise<void> = Promise.resolve();
+
+const loadHistory = async (): Promise<DeepLinkHistoryEntry[]> => {
+  if (history) return history;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.HISTORY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    history = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[DeepLinkHistory] Load error:', error);
+    history = [];
+  }
+  return history;
+};
+
+/**
+ * URL의 utm_* 파라미터 추출
+ */
+const extractCampaign = (url: string | null): Record<string, string> | undefined => {
+  if (!url || !url.includes('?')) return undefined;
+
+  try {
+    const query = url.split('?')[1].split('#')[0];
+    const campaign: Record<string, string> = {};
+    new URLSearchParams(query).forEach((value, key) => {
+      if (key.startsWith('utm_') && value) {
+        campaign[key] = value;
+      }
+    });
+    return Object.keys(campaign).length > 0 ? campaign : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * 딥링크 수신 기록 추가
+ */
+export const recordDeepLink = (
+  url: string | null,
+  source: DeepLinkSource,
+  path: string | null,
+  outcome: DeepLinkOutcome
+): Promise<void> => {
+  const entry: DeepLinkHistoryEntry = {
+    url,
+    source,
+    receivedAt: Date.now(),
+    path,
+    outcome,
+    campaign: extractCampaign(url),
+  };
+  console.log('[DeepLinkHistory] Record:', source, outcome, path || url);
+
+  writeChain = writeChain.then(async () => {
+    const entries = await loadHistory();
+    history = [entry, ...entries].slice(0, MAX_HISTORY_ENTRIES);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(history));
+    } catch (error) {
+      console.error('[DeepLinkHistory] Save error:', error);
+    }
+  });
+  return writeChain;
+};
+
+/**
+ * 딥링크 수신 기록 조회 (최신순)
+ */
+export const getDeepLinkHistory = async (
+  options: GetDeepLinkHistoryRequest = {}
+): Promise<DeepLinkHistoryEntry[]> => {
+  await writeChain;
+  const entries = await loadHistory();
+  const filtered = options.since !== undefined
+    ? entries.filter((entry) => entry.receivedAt >= options.since!)
+    : entries;
+  return options.limit !== undefined ? filtered.slice(0, options.limit) : filtered;
+};
+
+export default {
+  recordDeepLink,
+  getDeepLinkHistory,
+};
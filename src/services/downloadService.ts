@@ -2,15 +2,22 @@
  * Download Service - 파일 다운로드
  */
 
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import * as MediaLibrary from 'expo-media-library';
 import * as Sharing from 'expo-sharing';
 import { Platform, Alert } from 'react-native';
 
+// 다운로드 진행 콜백 타입
+export type DownloadProgressCallback = (progress: { loaded: number; total: number }) => void;
+
 /**
  * 파일 다운로드
  */
-export const downloadFile = async (url: string, fileName: string): Promise<boolean> => {
+export const downloadFile = async (
+  url: string,
+  fileName: string,
+  onProgress?: DownloadProgressCallback
+): Promise<boolean> => {
   try {
     console.log('[DownloadService] Starting download:', url);
 
@@ -22,11 +29,17 @@ export const downloadFile = async (url: string, fileName: string): Promise<boole
 
     const fileUri = `${downloadDir}${fileName}`;
 
-    // 파일 다운로드
-    const downloadResult = await FileSystem.downloadAsync(url, fileUri);
+    // 파일 다운로드 (진행률 콜백 지원)
+    const downloadResumable = FileSystem.createDownloadResumable(url, fileUri, {}, (event) => {
+      onProgress?.({
+        loaded: event.totalBytesWritten,
+        total: event.totalBytesExpectedToWrite,
+      });
+    });
+    const downloadResult = await downloadResumable.downloadAsync();
 
-    if (downloadResult.status !== 200) {
-      throw new Error(`Download failed with status ${downloadResult.status}`);
+    if (!downloadResult || downloadResult.status !== 200) {
+      throw new Error(`Download failed with status ${downloadResult?.status}`);
     }
 
     console.log('[DownloadService] Download completed:', fileUri);
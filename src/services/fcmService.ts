@@ -5,10 +5,12 @@
 
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
-import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
 
+import { buildRoutePath } from '../utils/deepLinkRoutes';
+import { setupNotificationChannels } from './notificationPreferenceService';
+
 // API Base URL
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://api.camter.co.kr';
 
@@ -83,15 +85,8 @@ export const getFcmToken = async (): Promise<string | null> => {
             return null;
         }
 
-        // Android 채널 설정
-        if (Platform.OS === 'android') {
-            await Notifications.setNotificationChannelAsync('default', {
-                name: 'default',
-                importance: Notifications.AndroidImportance.MAX,
-                vibrationPattern: [0, 250, 250, 250],
-                lightColor: '#00AC6A',
-            });
-        }
+        // Android 카테고리별 채널 설정
+        await setupNotificationChannels();
 
         // Expo Push Token 대신 Native Device Token (FCM) 가져오기
         // projectId설정이 없거나 잘못된 경우 getDevicePushTokenAsync 사용
@@ -195,82 +190,54 @@ export const handleTokenRefresh = async (
     }
 };
 
-/**
- * 알림 핸들러 설정
- */
-export const setupNotificationHandlers = (
-    onNotificationReceived?: (notification: Notifications.Notification) => void,
-    onNotificationResponse?: (response: Notifications.NotificationResponse) => void
-) => {
-    // 알림 수신 리스너 (포그라운드)
-    const receivedSubscription = Notifications.addNotificationReceivedListener((notification) => {
-        console.log('[FCM] Notification received:', notification.request.content);
-        onNotificationReceived?.(notification);
-    });
-
-    // 알림 반응 리스너 (탭 등)
-    const responseSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
-        console.log('[FCM] Notification response:', response.notification.request.content);
-        onNotificationResponse?.(response);
-    });
-
-    // 클린업 함수 반환
-    return () => {
-        receivedSubscription.remove();
-        responseSubscription.remove();
-    };
-};
-
-/**
- * 알림 표시 설정
- */
-export const configureNotificationPresentation = () => {
-    Notifications.setNotificationHandler({
-        handleNotification: async () => ({
-            shouldShowAlert: true,
-            shouldPlaySound: true,
-            shouldSetBadge: true,
-            shouldShowBanner: true,
-            shouldShowList: true,
-        }),
-    });
-};
-
 /**
  * 알림에서 딥링크 추출
  */
 export const extractDeepLinkFromNotification = (
     notification: Notifications.Notification
 ): string | null => {
-    const data = notification.request.content.data;
+    return extractDeepLinkFromData(notification.request.content.data);
+};
 
+/**
+ * 푸시 data에서 딥링크 경로 추출 (expo 알림, FCM RemoteMessage 공통)
+ */
+export const extractDeepLinkFromData = (
+    data: Record<string, unknown> | null | undefined
+): string | null => {
     if (!data) return null;
 
     // data.path가 있으면 반환
-    if (data.path) {
-        return data.path as string;
+    if (typeof data.path === 'string' && data.path) {
+        return data.path;
     }
 
-    // ID 기반 경로 생성
-    if (data.productId) {
-        return `/product/${data.productId}`;
-    }
-    if (data.reservationId) {
-        return `/reservation-detail/${data.reservationId}`;
-    }
-    if (data.eventId) {
-        return `/event/${data.eventId}`;
-    }
-    if (data.programId) {
-        return `/program/${data.programId}`;
-    }
-    if (data.chatRoomId) {
-        return `/chat/${data.chatRoomId}`;
+    // ID 기반 경로 생성 (deepLinkRoutes 테이블)
+    const routePath = buildRoutePath(data);
+    if (routePath) {
+        return routePath;
     }
 
     return null;
 };
 
+/**
+ * 알림 data에 로그인 필요 표시가 있는지 확인 (requiresAuth: true | 'true')
+ */
+export const isAuthRequiredNotification = (
+    notification: Notifications.Notification
+): boolean => {
+    return isAuthRequiredData(notification.request.content.data);
+};
+
+/**
+ * 푸시 data의 로그인 필요 표시 확인 (expo 알림, FCM RemoteMessage 공통)
+ */
+export const isAuthRequiredData = (data: Record<string, unknown> | null | undefined): boolean => {
+    const requiresAuth = data?.requiresAuth;
+    return requiresAuth === true || requiresAuth === 'true';
+};
+
 /**
  * 배지 카운트 업데이트
  */
@@ -308,9 +275,10 @@ export default {
     getStoredFcmToken,
     syncFcmTokenToServer,
     handleTokenRefresh,
-    setupNotificationHandlers,
-    configureNotificationPresentation,
     extractDeepLinkFromNotification,
+    extractDeepLinkFromData,
+    isAuthRequiredNotification,
+    isAuthRequiredData,
     updateBadgeCount,
     clearBadge,
     clearFcmToken,
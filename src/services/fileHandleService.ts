@@ -0,0 +1,229 @@
+/**
+ * File Handle Service - 네이티브 파일 핸들 관리
+ * 대용량 파일(사진 등)을 base64로 postMessage에 싣지 않고,
+ * 네이티브가 파일을 보관한 채 웹에는 불투명한 핸들만 전달합니다.
+ * 웹은 핸들로 직접 업로드(uploadFile)하거나 청크 단위로 읽을 수 있습니다(readFileChunk).
+ * 해제하지 않은 핸들은 마지막 사용 후 TTL이 지나면 자동 해제됩니다(임시 파일 삭제).
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { BridgeError } from '../bridge/errors';
+
+// 파일 핸들 정보 타입
+export interface FileHandleEntry {
+  handle: string;
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  size: number;
+  // 앱이 생성한 임시 파일이면 해제 시 삭제
+  temporary: boolean;
+}
+
+// 업로드 옵션 타입
+export interface UploadFileOptions {
+  fields?: Record<string, string>;
+  headers?: Record<string, string>;
+  fieldName?: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+  onProgress?: (progress: { loaded: number; total: number }) => void;
+  signal?: AbortSignal;
+}
+
+// 업로드 결과 타입
+export interface UploadFileResult {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+// 청크 읽기 결과 타입
+export interface FileChunk {
+  data: string;  // base64
+  offset: number;
+  length: number;
+  size: number;
+  eof: boolean;
+}
+
+// 청크 최대 크기 (bytes) - postMessage 안정성을 위해 제한
+export const MAX_CHUNK_SIZE = 512 * 1024;
+
+// 핸들 기본 TTL (마지막 사용 기준) 및 만료 확인 간격
+export const DEFAULT_HANDLE_TTL_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// 핸들 저장 항목 (만료 시각 포함)
+interface StoredFileHandle extends FileHandleEntry {
+  ttlMs: number;
+  expiresAt: number;
+}
+
+// 핸들 저장소
+const fileHandles = new Map<string, StoredFileHandle>();
+let handleCounter = 0;
+let sweepTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 핸들 생성
+ */
+const generateHandle = (): string => {
+  return `file_${++handleCounter}_${Date.now().toString(36)}`;
+};
+
+/**
+ * 만료된 핸들 해제 (핸들이 남아 있는 동안 SWEEP_INTERVAL_MS마다 확인)
+ */
+const scheduleSweep = () => {
+  if (sweepTimer || fileHandles.size === 0) return;
+  sweepTimer = setTimeout(async () => {
+    sweepTimer = null;
+    const now = Date.now();
+    const expired = Array.from(fileHandles.values()).filter((entry) => entry.expiresAt <= now);
+    for (const entry of expired) {
+      console.log('[FileHandle] Expired:', entry.handle);
+      await releaseFile(entry.handle);
+    }
+    scheduleSweep();
+  }, SWEEP_INTERVAL_MS);
+};
+
+/**
+ * 파일 등록 후 핸들 발급
+ * ttlMs: 마지막 사용 후 자동 해제까지의 시간
+ */
+export const registerFile = (
+  file: Omit<FileHandleEntry, 'handle'>,
+  ttlMs: number = DEFAULT_HANDLE_TTL_MS
+): FileHandleEntry => {
+  const entry: StoredFileHandle = { ...file, handle: generateHandle(), ttlMs, expiresAt: Date.now() + ttlMs };
+  fileHandles.set(entry.handle, entry);
+  console.log('[FileHandle] Registered:', entry.handle, entry.fileName, `${entry.size} bytes`);
+  scheduleSweep();
+  return entry;
+};
+
+/**
+ * 핸들로 파일 정보 조회 (사용 시 만료 시각 연장)
+ */
+export const getFile = (handle: string): FileHandleEntry => {
+  const entry = fileHandles.get(handle);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    throw new BridgeError('E_INVALID_ARGS', `Unknown file handle: ${handle}`);
+  }
+  entry.expiresAt = Date.now() + entry.ttlMs;
+  return entry;
+};
+
+/**
+ * 핸들 해제 (임시 파일은 삭제)
+ */
+export const releaseFile = async (handle: string): Promise<boolean> => {
+  const entry = fileHandles.get(handle);
+  if (!entry) return false;
+
+  fileHandles.delete(handle);
+
+  if (entry.temporary) {
+    try {
+      await FileSystem.deleteAsync(entry.uri, { idempotent: true });
+    } catch (error) {
+      console.warn('[FileHandle] Temporary file delete error:', error);
+    }
+  }
+
+  console.log('[FileHandle] Released:', handle);
+  return true;
+};
+
+/**
+ * 핸들 파일을 서버로 직접 업로드 (multipart/form-data)
+ */
+export const uploadFile = async (
+  handle: string,
+  url: string,
+  options: UploadFileOptions = {}
+): Promise<UploadFileResult> => {
+  const entry = getFile(handle);
+  const { fields, headers, fieldName = 'file', method = 'POST', onProgress, signal } = options;
+
+  console.log('[FileHandle] Uploading:', handle, '->', url);
+
+  const task = FileSystem.createUploadTask(
+    url,
+    entry.uri,
+    {
+      httpMethod: method,
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName,
+      mimeType: entry.mimeType,
+      parameters: fields,
+      headers,
+    },
+    (event) => {
+      onProgress?.({
+        loaded: event.totalBytesSent,
+        total: event.totalBytesExpectedToSend,
+      });
+    }
+  );
+
+  const onAbort = () => {
+    task.cancelAsync().catch((error) => console.warn('[FileHandle] Upload cancel error:', error));
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    const result = await task.uploadAsync();
+    if (!result) {
+      throw new BridgeError('E_CANCELLED', 'Upload cancelled');
+    }
+
+    console.log('[FileHandle] Upload completed:', handle, result.status);
+    return {
+      status: result.status,
+      body: result.body,
+      headers: result.headers,
+    };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * 핸들 파일을 청크 단위로 읽기 (base64)
+ */
+export const readFileChunk = async (
+  handle: string,
+  offset: number,
+  length: number = MAX_CHUNK_SIZE
+): Promise<FileChunk> => {
+  const entry = getFile(handle);
+  const safeOffset = Math.max(0, Math.min(offset, entry.size));
+  const safeLength = Math.max(0, Math.min(length, MAX_CHUNK_SIZE, entry.size - safeOffset));
+
+  const data = safeLength > 0
+    ? await FileSystem.readAsStringAsync(entry.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: safeOffset,
+      length: safeLength,
+    })
+    : '';
+
+  return {
+    data,
+    offset: safeOffset,
+    length: safeLength,
+    size: entry.size,
+    eof: safeOffset + safeLength >= entry.size,
+  };
+};
+
+export default {
+  registerFile,
+  getFile,
+  releaseFile,
+  uploadFile,
+  readFileChunk,
+};
@@ -0,0 +1,56 @@
+/**
+ * In-App Browser Service - 외부 링크 인앱 브라우저 열기
+ * iOS: SFSafariViewController, Android: Chrome Custom Tabs
+ */
+
+import { Linking } from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+
+/**
+ * 인앱 브라우저로 외부 링크 열기 (expo-web-browser 사용)
+ */
+export const openInAppBrowser = async (url: string): Promise<void> => {
+  try {
+    console.log('[InAppBrowser] Opening in-app browser with expo-web-browser:', url);
+
+    // WebBrowser.openBrowserAsync는 Promise<WebBrowserResult>를 반환
+    await WebBrowser.openBrowserAsync(url, {
+      // iOS 옵션
+      controlsColor: '#00AC6A', // 완료 버튼 등 색상
+      presentationStyle: WebBrowser.WebBrowserPresentationStyle.PAGE_SHEET,
+
+      // Android 옵션
+      toolbarColor: '#FFFFFF',
+      secondaryToolbarColor: 'black',
+      showTitle: true,
+      enableDefaultShareMenuItem: true,
+    });
+  } catch (error) {
+    console.error('[InAppBrowser] WebBrowser error:', error);
+    // Fallback to external browser (Safari/Chrome App)
+    Linking.openURL(url);
+  }
+};
+
+/**
+ * 외부 링크 열기
+ * http(s)는 인앱 브라우저, 앱 딥링크는 외부 앱으로 연결
+ */
+export const openExternalLink = async (url: string): Promise<void> => {
+  if (url.startsWith('http://') || url.startsWith('https://')) {
+    await openInAppBrowser(url);
+    return;
+  }
+
+  const supported = await Linking.canOpenURL(url);
+  if (supported) {
+    await Linking.openURL(url);
+  } else {
+    console.warn('[InAppBrowser] Cannot open URL:', url);
+  }
+};
+
+export default {
+  openInAppBrowser,
+  openExternalLink,
+};
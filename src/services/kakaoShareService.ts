@@ -7,6 +7,8 @@ import { initializeKakaoSDK, getKeyHashAndroid } from '@react-native-kakao/core'
 import { shareFeedTemplate, KakaoFeedTemplate } from '@react-native-kakao/share';
 import { Platform } from 'react-native';
 
+import { toRouteParams } from '../utils/deepLinkRoutes';
+
 // 카카오 SDK 초기화 상태
 let isKakaoInitialized = false;
 
@@ -71,9 +73,9 @@ export async function shareKakaoFeed(params: KakaoShareParams): Promise<boolean>
     // executionParams가 없으면 webUrl에서 추출
     let executionParams = params.executionParams;
     if (!executionParams && params.webUrl) {
-      const urlMatch = params.webUrl.match(/\/product\/(\d+)/);
-      if (urlMatch) {
-        executionParams = { productId: urlMatch[1] };
+      const routeParams = toRouteParams(params.webUrl);
+      if (routeParams) {
+        executionParams = routeParams as Record<string, string>;
         console.log('[KakaoShare] Auto-generated executionParams from URL:', executionParams);
       }
     }
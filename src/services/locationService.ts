@@ -0,0 +1,187 @@
+/**
+ * Location Service - 네이티브 위치 조회
+ * WebView geolocation(브라우저 권한 팝업) 대신 expo-location으로 현재 위치 조회 및 위치 추적을 제공합니다.
+ * 마지막 위치를 캐시해 maxAgeMs 이내 요청은 즉시 응답합니다.
+ */
+
+import * as Location from 'expo-location';
+
+import { GeoPosition, LocationAccuracyLevel } from '../bridge/protocol';
+import { BridgeError } from '../bridge/errors';
+import { requestPermission, createPermissionError } from './permissionService';
+
+// 현재 위치 조회 옵션 타입
+export interface GetCurrentPositionOptions {
+  accuracy?: LocationAccuracyLevel;
+  timeoutMs?: number;
+  maxAgeMs?: number;
+}
+
+// 위치 추적 옵션 타입
+export interface WatchPositionOptions {
+  accuracy?: LocationAccuracyLevel;
+  distanceInterval?: number;  // m
+  timeIntervalMs?: number;  // Android만 지원
+}
+
+// 기본값
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_AGE_MS = 0;
+
+// 정확도 매핑
+const ACCURACY_MAP: Record<LocationAccuracyLevel, Location.Accuracy> = {
+  low: Location.Accuracy.Low,
+  balanced: Location.Accuracy.Balanced,
+  high: Location.Accuracy.High,
+};
+
+// 마지막 위치 캐시
+let lastKnownPosition: GeoPosition | null = null;
+
+// 진행 중인 위치 추적 (watchId → 구독, 구독 시작 전에는 null)
+const watchSubscriptions = new Map<string, Location.LocationSubscription | null>();
+let watchCounter = 0;
+
+/**
+ * expo-location 결과를 브릿지 위치 타입으로 변환
+ */
+const toGeoPosition = (location: Location.LocationObject): GeoPosition => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  accuracy: location.coords.accuracy,
+  altitude: location.coords.altitude,
+  altitudeAccuracy: location.coords.altitudeAccuracy,
+  heading: location.coords.heading,
+  speed: location.coords.speed,
+  timestamp: location.timestamp,
+});
+
+/**
+ * 위치 캐시 갱신
+ */
+const cachePosition = (position: GeoPosition): GeoPosition => {
+  if (!lastKnownPosition || position.timestamp >= lastKnownPosition.timestamp) {
+    lastKnownPosition = position;
+  }
+  return position;
+};
+
+/**
+ * 위치 권한 확보 (필요 시 요청)
+ */
+const ensureLocationPermission = async (): Promise<void> => {
+  const permission = await requestPermission('location');
+  if (!permission.granted) {
+    throw createPermissionError('location', permission);
+  }
+};
+
+/**
+ * 마지막 위치 조회 (캐시)
+ */
+export const getLastKnownPosition = (): GeoPosition | null => lastKnownPosition;
+
+/**
+ * 현재 위치 조회
+ * maxAgeMs 이내의 캐시 위치가 있으면 바로 반환 (권한 확인은 항상 수행)
+ */
+export const getCurrentPosition = async (options: GetCurrentPositionOptions = {}): Promise<GeoPosition> => {
+  const { accuracy = 'balanced', timeoutMs = DEFAULT_TIMEOUT_MS, maxAgeMs = DEFAULT_MAX_AGE_MS } = options;
+
+  await ensureLocationPermission();
+
+  if (lastKnownPosition && Date.now() - lastKnownPosition.timestamp <= maxAgeMs) {
+    console.log('[Location] Using cached position');
+    return lastKnownPosition;
+  }
+
+  // OS 캐시 위치가 maxAgeMs 이내면 사용 (GPS 대기 없이 응답)
+  if (maxAgeMs > 0) {
+    const lastKnown = await Location.getLastKnownPositionAsync({ maxAge: maxAgeMs });
+    if (lastKnown) {
+      return cachePosition(toGeoPosition(lastKnown));
+    }
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new BridgeError('E_TIMEOUT', `Location timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    const location = await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: ACCURACY_MAP[accuracy] }),
+      timeout,
+    ]);
+    console.log('[Location] Current position acquired');
+    return cachePosition(toGeoPosition(location));
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 위치 추적 시작
+ * 위치가 바뀔 때마다 onUpdate 호출, clearWatch용 watchId 반환
+ */
+export const watchPosition = async (
+  options: WatchPositionOptions,
+  onUpdate: (watchId: string, position: GeoPosition) => void
+): Promise<string> => {
+  const { accuracy = 'balanced', distanceInterval, timeIntervalMs } = options;
+
+  await ensureLocationPermission();
+
+  // 구독 전에 watchId를 먼저 등록 (구독 시작 중 들어온 위치/clearWatch도 처리)
+  const watchId = `watch_${++watchCounter}_${Date.now().toString(36)}`;
+  watchSubscriptions.set(watchId, null);
+
+  let subscription: Location.LocationSubscription;
+  try {
+    subscription = await Location.watchPositionAsync(
+      {
+        accuracy: ACCURACY_MAP[accuracy],
+        distanceInterval,
+        timeInterval: timeIntervalMs,
+      },
+      (location) => {
+        if (watchSubscriptions.has(watchId)) {
+          onUpdate(watchId, cachePosition(toGeoPosition(location)));
+        }
+      }
+    );
+  } catch (error) {
+    watchSubscriptions.delete(watchId);
+    throw error;
+  }
+
+  // 구독 시작 중 clearWatch된 경우 바로 해제
+  if (!watchSubscriptions.has(watchId)) {
+    subscription.remove();
+    console.log('[Location] Watch cleared while starting:', watchId);
+    return watchId;
+  }
+
+  watchSubscriptions.set(watchId, subscription);
+  console.log('[Location] Watch started:', watchId);
+  return watchId;
+};
+
+/**
+ * 위치 추적 중지
+ */
+export const clearWatch = (watchId: string): boolean => {
+  if (!watchSubscriptions.has(watchId)) return false;
+
+  watchSubscriptions.get(watchId)?.remove();
+  watchSubscriptions.delete(watchId);
+  console.log('[Location] Watch cleared:', watchId);
+  return true;
+};
+
+export default {
+  getLastKnownPosition,
+  getCurrentPosition,
+  watchPosition,
+  clearWatch,
+};
@@ -0,0 +1,214 @@
+/**
+ * Notification Inbox Service - 로컬 알림 보관함
+ * 수신한 알림(포그라운드/백그라운드 수신, 알림 탭, 알림 센터에 남은 알림)을 읽음 상태와 함께 저장하고,
+ * 앱 배지를 읽지 않은 알림 수로 맞춥니다.
+ */
+
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+
+import { GetNotificationsRequest, InboxNotification } from '../bridge/protocol';
+import { updateBadgeCount } from './fcmService';
+import { fromExpoNotification, fromRemoteMessage } from './notificationService';
+import { getNotificationCategory } from './notificationPreferenceService';
+
+// Storage Keys
+const STORAGE_KEYS = {
+  INBOX: '@camter/notification_inbox',
+};
+
+// 최대 보관 개수 (초과 시 오래된 알림부터 삭제)
+const MAX_INBOX_SIZE = 100;
+
+// 알림 센터 알림과 백그라운드 수신분을 같은 알림으로 보는 수신 시각 차이
+const PRESENTED_MATCH_WINDOW_MS = 60 * 1000;
+
+// 보관함에 추가할 알림
+export interface InboxNotificationInput {
+  id: string;
+  title: string | null;
+  body: string | null;
+  data: Record<string, unknown>;
+}
+
+// 메모리 캐시 (최신순)
+let inbox: InboxNotification[] | null = null;
+// 저장 작업 직렬화
+let writeChain: Promise<void> = Promise.resolve();
+
+const loadInbox = async (): Promise<InboxNotification[]> => {
+  if (inbox) return inbox;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.INBOX);
+    const parsed = stored ? JSON.parse(stored) : [];
+    inbox = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[NotificationInbox] Load error:', error);
+    inbox = [];
+  }
+  return inbox;
+};
+
+const countUnread = (entries: InboxNotification[]): number => entries.filter((entry) => !entry.read).length;
+
+/**
+ * 보관함 변경 (저장 후 배지를 읽지 않은 수로 갱신)
+ */
+const updateInbox = (
+  update: (entries: InboxNotification[]) => InboxNotification[]
+): Promise<number> => {
+  const result = writeChain.then(async () => {
+    const entries = update(await loadInbox()).slice(0, MAX_INBOX_SIZE);
+    inbox = entries;
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.INBOX, JSON.stringify(entries));
+    } catch (error) {
+      console.error('[NotificationInbox] Save error:', error);
+    }
+
+    const unreadCount = countUnread(entries);
+    await updateBadgeCount(unreadCount);
+    return unreadCount;
+  });
+  writeChain = result.then(() => undefined);
+  return result;
+};
+
+const toInboxEntry = (notification: InboxNotificationInput, read: boolean): InboxNotification => ({
+  id: notification.id,
+  title: notification.title,
+  body: notification.body,
+  data: notification.data,
+  category: getNotificationCategory(notification.data),
+  receivedAt: Date.now(),
+  read,
+});
+
+/**
+ * 알림 추가 (이미 있으면 read만 반영)
+ * read: 알림 탭으로 연 경우 true
+ */
+export const addToInbox = (notification: InboxNotificationInput, read = false): Promise<number> => {
+  return updateInbox((entries) => {
+    const existing = entries.find((entry) => entry.id === notification.id);
+    if (existing) {
+      return read && !existing.read
+        ? entries.map((entry) => (entry.id === notification.id ? { ...entry, read: true } : entry))
+        : entries;
+    }
+
+    console.log('[NotificationInbox] Added:', notification.id, read ? '(read)' : '');
+    return [toInboxEntry(notification, read), ...entries];
+  });
+};
+
+/**
+ * 알림 센터 알림 추가
+ * Android에서 FCM SDK가 표시한 알림은 FCM 메시지 ID 없이 expo identifier로만 조회되므로,
+ * 백그라운드 핸들러가 같은 제목/본문으로 비슷한 시각에 저장한 알림이 있으면 추가하지 않음
+ */
+const addPresentedToInbox = (notification: InboxNotificationInput, presentedAt: number): Promise<number> => {
+  return updateInbox((entries) => {
+    const duplicate = entries.some((entry) =>
+      entry.id === notification.id ||
+      (entry.title === notification.title &&
+        entry.body === notification.body &&
+        Math.abs(entry.receivedAt - presentedAt) <= PRESENTED_MATCH_WINDOW_MS)
+    );
+    if (duplicate) return entries;
+
+    console.log('[NotificationInbox] Added from notification center:', notification.id);
+    return [toInboxEntry(notification, false), ...entries];
+  });
+};
+
+/**
+ * 백그라운드/종료 상태에서 받은 FCM 메시지를 보관함에 추가
+ * messaging().setBackgroundMessageHandler로 앱 진입점(index.ts)에서 등록 (헤드리스 실행)
+ * 앱을 열기 전에 알림 센터에서 지운 알림도 보관됨
+ */
+export const addBackgroundMessageToInbox = async (
+  remoteMessage: FirebaseMessagingTypes.RemoteMessage
+): Promise<void> => {
+  const notification = fromRemoteMessage(remoteMessage);
+  // 무음 데이터 메시지는 보관하지 않음
+  if (!notification.title && !notification.body) return;
+
+  console.log('[NotificationInbox] Background message:', notification.id);
+  await addToInbox(notification);
+};
+
+/**
+ * 알림 센터에 남아 있는 알림을 보관함에 추가 (앱이 포그라운드로 돌아올 때)
+ * data.messageId가 있으면 FCM 메시지 ID로 저장해 포그라운드 수신분과 중복되지 않도록 함
+ * (없으면 백그라운드 수신분과 제목/본문/수신 시각으로 중복 확인)
+ */
+export const syncPresentedNotifications = async (): Promise<number> => {
+  try {
+    const presented = await Notifications.getPresentedNotificationsAsync();
+
+    for (const notification of presented) {
+      const input = fromExpoNotification(notification);
+      if (!input.title && !input.body) continue;
+
+      await addPresentedToInbox(input, notification.date);
+    }
+  } catch (error) {
+    console.error('[NotificationInbox] Presented notifications sync error:', error);
+  }
+  return getUnreadCount();
+};
+
+/**
+ * 보관함 조회 (최신순)
+ */
+export const getNotifications = async (
+  options: GetNotificationsRequest = {}
+): Promise<{ notifications: InboxNotification[]; unreadCount: number }> => {
+  await writeChain;
+  const entries = await loadInbox();
+  const filtered = options.unreadOnly ? entries.filter((entry) => !entry.read) : entries;
+
+  return {
+    notifications: options.limit !== undefined ? filtered.slice(0, options.limit) : filtered,
+    unreadCount: countUnread(entries),
+  };
+};
+
+/**
+ * 읽지 않은 알림 수
+ */
+export const getUnreadCount = async (): Promise<number> => {
+  await writeChain;
+  return countUnread(await loadInbox());
+};
+
+/**
+ * 읽음 처리 (ids 생략 시 전체), 읽지 않은 수 반환
+ */
+export const markRead = (ids?: string[]): Promise<number> => {
+  const targets = ids ? new Set(ids) : null;
+  return updateInbox((entries) =>
+    entries.map((entry) => (!entry.read && (!targets || targets.has(entry.id)) ? { ...entry, read: true } : entry))
+  );
+};
+
+/**
+ * 삭제 (ids 생략 시 전체), 읽지 않은 수 반환
+ */
+export const clearNotifications = (ids?: string[]): Promise<number> => {
+  const targets = ids ? new Set(ids) : null;
+  return updateInbox((entries) => (targets ? entries.filter((entry) => !targets.has(entry.id)) : []));
+};
+
+export default {
+  addToInbox,
+  addBackgroundMessageToInbox,
+  syncPresentedNotifications,
+  getNotifications,
+  getUnreadCount,
+  markRead,
+  clearNotifications,
+};
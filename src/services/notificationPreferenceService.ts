@@ -0,0 +1,260 @@
+/**
+ * Notification Preference Service - 알림 카테고리별 채널/수신 설정
+ * 예약, 채팅, 커뮤니티, 마케팅, 시스템 카테고리마다 Android 알림 채널을 만들고,
+ * 웹 알림 설정 화면에서 바꾼 카테고리별 수신 여부를 AsyncStorage에 저장합니다.
+ *
+ * 서버는 푸시 data.category(및 Android notification channel_id)에 카테고리 ID를 보내야 합니다.
+ *
+ * 앱이 백그라운드/종료 상태일 때 오는 알림은 시스템이 바로 표시하므로,
+ * 수신 설정은 로그인 상태에서 서버에도 동기화합니다 (서버 API는 백엔드와 확정 전).
+ */
+
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+import { NotificationCategory, NotificationCategoryPreference } from '../bridge/protocol';
+
+// API Base URL
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://api.camter.co.kr';
+
+// Storage Keys
+const STORAGE_KEYS = {
+  PREFERENCES: '@camter/notification_preferences',
+};
+
+// 카테고리 도입 전 채널 (channel_id를 'default'로 보내는 기존 푸시가 기본 설정으로 표시되도록 유지)
+const LEGACY_CHANNEL = {
+  id: 'default',
+  name: 'default',
+  description: '카테고리 없이 보내는 알림',
+  importance: Notifications.AndroidImportance.MAX,
+};
+
+// 카테고리 정의 (id가 Android 채널 ID)
+interface NotificationCategoryDefinition {
+  id: NotificationCategory;
+  name: string;
+  description: string;
+  importance: Notifications.AndroidImportance;
+  // 기본 수신 여부 (마케팅은 수신 동의 전까지 꺼짐)
+  defaultEnabled: boolean;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategoryDefinition[] = [
+  {
+    id: 'reservations',
+    name: '예약 알림',
+    description: '예약 확정, 변경, 취소 알림',
+    importance: Notifications.AndroidImportance.MAX,
+    defaultEnabled: true,
+  },
+  {
+    id: 'chat',
+    name: '채팅 알림',
+    description: '새 채팅 메시지 알림',
+    importance: Notifications.AndroidImportance.HIGH,
+    defaultEnabled: true,
+  },
+  {
+    id: 'community',
+    name: '커뮤니티 알림',
+    description: '댓글, 좋아요 등 커뮤니티 활동 알림',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    defaultEnabled: true,
+  },
+  {
+    id: 'marketing',
+    name: '마케팅 알림',
+    description: '이벤트, 혜택 안내',
+    importance: Notifications.AndroidImportance.LOW,
+    defaultEnabled: false,
+  },
+  {
+    id: 'system',
+    name: '시스템 알림',
+    description: '공지사항 및 기타 알림',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    defaultEnabled: true,
+  },
+];
+
+// 카테고리가 없거나 알 수 없는 메시지의 채널
+export const DEFAULT_NOTIFICATION_CATEGORY: NotificationCategory = 'system';
+
+const CATEGORY_IDS = NOTIFICATION_CATEGORIES.map((category) => category.id);
+
+// 메모리 캐시 (알림 수신 시 동기 판단용)
+let preferences: Record<NotificationCategory, boolean> = NOTIFICATION_CATEGORIES.reduce(
+  (acc, category) => ({ ...acc, [category.id]: category.defaultEnabled }),
+  {} as Record<NotificationCategory, boolean>
+);
+let isLoaded = false;
+// 서버 동기화용 액세스 토큰 (로그인 시 설정, 로그아웃 시 해제)
+let syncAccessToken: string | null = null;
+
+export const isNotificationCategory = (value: unknown): value is NotificationCategory => {
+  return typeof value === 'string' && CATEGORY_IDS.includes(value as NotificationCategory);
+};
+
+/**
+ * 푸시 data의 카테고리 (data.category, 없으면 채팅방 ID로 chat 추정, 그 외 system)
+ */
+export const getNotificationCategory = (data: Record<string, unknown>): NotificationCategory => {
+  if (isNotificationCategory(data.category)) return data.category;
+  if (data.chatRoomId) return 'chat';
+  return DEFAULT_NOTIFICATION_CATEGORY;
+};
+
+/**
+ * Android 알림 채널 생성 (이미 있으면 이름/설명만 갱신)
+ * 카테고리 채널과 함께 기존 'default' 채널도 유지
+ */
+export const setupNotificationChannels = async (): Promise<void> => {
+  if (Platform.OS !== 'android') return;
+
+  try {
+    await Promise.all(
+      [...NOTIFICATION_CATEGORIES, LEGACY_CHANNEL].map((channel) =>
+        Notifications.setNotificationChannelAsync(channel.id, {
+          name: channel.name,
+          description: channel.description,
+          importance: channel.importance,
+          vibrationPattern: [0, 250, 250, 250],
+          lightColor: '#00AC6A',
+        })
+      )
+    );
+  } catch (error) {
+    console.error('[NotificationPreference] Channel setup error:', error);
+  }
+};
+
+/**
+ * 저장된 수신 설정 로드
+ */
+export const loadNotificationPreferences = async (): Promise<Record<NotificationCategory, boolean>> => {
+  if (isLoaded) return preferences;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PREFERENCES);
+    const parsed = stored ? JSON.parse(stored) : {};
+    CATEGORY_IDS.forEach((id) => {
+      if (typeof parsed[id] === 'boolean') {
+        preferences[id] = parsed[id];
+      }
+    });
+  } catch (error) {
+    console.error('[NotificationPreference] Load error:', error);
+  }
+  isLoaded = true;
+  return preferences;
+};
+
+/**
+ * 카테고리 수신 여부 (로드 전에는 기본값)
+ */
+export const isCategoryEnabled = (category: NotificationCategory): boolean => preferences[category];
+
+/**
+ * Android 시스템 설정에서 채널이 꺼졌는지 확인
+ */
+const isChannelBlocked = async (category: NotificationCategory): Promise<boolean> => {
+  if (Platform.OS !== 'android') return false;
+
+  try {
+    const channel = await Notifications.getNotificationChannelAsync(category);
+    return channel?.importance === Notifications.AndroidImportance.NONE;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * 카테고리별 수신 설정 조회
+ */
+export const getNotificationPreferences = async (): Promise<NotificationCategoryPreference[]> => {
+  await loadNotificationPreferences();
+
+  return Promise.all(
+    NOTIFICATION_CATEGORIES.map(async (category) => ({
+      category: category.id,
+      name: category.name,
+      description: category.description,
+      enabled: preferences[category.id],
+      systemBlocked: await isChannelBlocked(category.id),
+    }))
+  );
+};
+
+/**
+ * 카테고리 수신 설정 서버 동기화
+ * PATCH /camter/api/v2/me/notification-settings/categories (fcm-token API 기준 경로, 백엔드 확정 전)
+ * accessToken을 넘기면 이후 설정 변경에도 사용 (로그인 시), 실패해도 로컬 설정은 유지
+ */
+export const syncNotificationPreferencesToServer = async (accessToken?: string): Promise<boolean> => {
+  if (accessToken) {
+    syncAccessToken = accessToken;
+  }
+  if (!syncAccessToken) {
+    console.log('[NotificationPreference] Not logged in, server sync deferred until login');
+    return false;
+  }
+
+  await loadNotificationPreferences();
+  try {
+    const response = await fetch(`${API_BASE_URL}/camter/api/v2/me/notification-settings/categories`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${syncAccessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ categories: preferences }),
+    });
+
+    if (!response.ok) {
+      console.error('[NotificationPreference] Server sync failed:', response.status);
+      return false;
+    }
+    console.log('[NotificationPreference] Synced to server');
+    return true;
+  } catch (error) {
+    console.error('[NotificationPreference] Server sync error:', error);
+    return false;
+  }
+};
+
+/**
+ * 서버 동기화용 액세스 토큰 해제 (로그아웃 시)
+ */
+export const clearPreferenceSyncToken = (): void => {
+  syncAccessToken = null;
+};
+
+/**
+ * 카테고리 수신 설정 변경 (AsyncStorage에 저장 후 바로 반환, 로그인 상태면 서버 동기화는 백그라운드로)
+ */
+export const setNotificationPreference = async (
+  category: NotificationCategory,
+  enabled: boolean
+): Promise<NotificationCategoryPreference[]> => {
+  await loadNotificationPreferences();
+  preferences = { ...preferences, [category]: enabled };
+  await AsyncStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(preferences));
+  console.log('[NotificationPreference] Updated:', category, enabled);
+
+  // 서버 응답을 기다리지 않음 (실패는 동기화 함수에서 로그만 남김)
+  syncNotificationPreferencesToServer();
+  return getNotificationPreferences();
+};
+
+export default {
+  setupNotificationChannels,
+  loadNotificationPreferences,
+  getNotificationCategory,
+  isCategoryEnabled,
+  getNotificationPreferences,
+  setNotificationPreference,
+  syncNotificationPreferencesToServer,
+  clearPreferenceSyncToken,
+};
@@ -0,0 +1,283 @@
+/**
+ * Notification Service - 포그라운드 알림 단일 처리 파이프라인
+ * 알림 표시 설정(setNotificationHandler), FCM 포그라운드 메시지, expo 알림 수신을 한 곳에서 처리합니다.
+ *
+ * - 메시지 ID로 중복 제거 (FCM onMessage와 expo 수신 리스너가 같은 알림을 받는 경우)
+ * - 알림별로 배너 표시, 배지 갱신, 웹 이벤트 전달 여부를 결정
+ * - 현재 WebView 경로의 채팅방 메시지는 배너 없이 웹에만 전달, 다른 채팅방은 방별로 묶어 표시
+ * - data.category별 Android 채널로 표시, 사용자가 끈 카테고리는 배너 없이 웹에만 전달
+ */
+
+import * as Notifications from 'expo-notifications';
+import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { Platform } from 'react-native';
+
+import { NotificationCategory, NotificationReceivedEvent } from '../bridge/protocol';
+import { matchRoutePath, pickRouteParams } from '../utils/deepLinkRoutes';
+import {
+  getNotificationCategory,
+  isCategoryEnabled,
+  loadNotificationPreferences,
+  setupNotificationChannels,
+} from './notificationPreferenceService';
+
+// 수신 알림 (FCM 메시지, expo 알림 공통)
+export interface IncomingNotification {
+  id: string;
+  title: string | null;
+  body: string | null;
+  data: Record<string, unknown>;
+}
+
+// 알림 처리 결정
+export interface NotificationDecision {
+  // 시스템 배너/알림 목록 표시
+  showBanner: boolean;
+  // 웹에 notificationReceived 이벤트 전달
+  forwardToWeb: boolean;
+  // 같은 키의 알림은 하나로 묶어 최신 메시지로 교체 (채팅방별)
+  groupKey: string | null;
+  // 알림 카테고리 (Android 채널)
+  category: NotificationCategory;
+}
+
+// 중복 제거용 처리 ID 보관 개수
+const MAX_PROCESSED_IDS = 100;
+
+/**
+ * 최근 처리한 ID 기록기 (이미 처리했으면 false 반환, 최근 MAX_PROCESSED_IDS개만 유지)
+ */
+const createRecentIds = () => {
+  const ids = new Set<string>();
+  const order: string[] = [];
+
+  return (id: string): boolean => {
+    if (ids.has(id)) return false;
+
+    ids.add(id);
+    order.push(id);
+    if (order.length > MAX_PROCESSED_IDS) {
+      ids.delete(order.shift()!);
+    }
+    return true;
+  };
+};
+
+// 수신 처리한 알림 ID
+const markProcessed = createRecentIds();
+// 탭 처리한 알림 ID (expo 응답 리스너와 FCM onNotificationOpenedApp/getInitialNotification이 같은 탭을 받는 경우)
+const markOpened = createRecentIds();
+let isHandlerConfigured = false;
+
+// 현재 WebView 경로 (채팅방 알림 억제 판단용)
+let currentPath: string | null = null;
+// 묶음 알림별 누적 메시지 수
+const groupCounts = new Map<string, number>();
+
+const getChatGroupKey = (chatRoomId: string): string => `chat_${chatRoomId}`;
+
+/**
+ * 현재 보고 있는 채팅방 ID
+ */
+const getActiveChatRoomId = (): string | null => {
+  const match = matchRoutePath(currentPath);
+  return match?.route.param === 'chatRoomId' ? match.id : null;
+};
+
+/**
+ * 현재 WebView URL 갱신 (채팅방에 들어가면 해당 방 묶음 알림 제거)
+ */
+export const setCurrentRoute = (url: string | null): void => {
+  currentPath = url ? url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '') || '/' : null;
+
+  const activeChatRoomId = getActiveChatRoomId();
+  if (activeChatRoomId) {
+    const groupKey = getChatGroupKey(activeChatRoomId);
+    if (groupCounts.delete(groupKey)) {
+      Notifications.dismissNotificationAsync(groupKey).catch((error) => {
+        console.error('[Notification] Dismiss error:', error);
+      });
+    }
+  }
+};
+
+const isTruthyFlag = (value: unknown): boolean => value === true || value === 'true';
+
+/**
+ * expo 알림의 FCM 메시지 ID
+ * - data.messageId: 포그라운드 FCM 메시지를 로컬 알림으로 다시 표시한 경우
+ * - data['gcm.message_id']: iOS가 직접 표시한 FCM 알림 (identifier는 APNs가 만든 별도 ID)
+ * - Android는 identifier가 FCM 메시지 ID
+ */
+const getFcmMessageId = (data: Record<string, unknown>): string | null => {
+  for (const key of ['messageId', 'gcm.message_id']) {
+    const value = data[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return null;
+};
+
+/**
+ * expo 알림 → 수신 알림 (FCM 메시지 ID가 있으면 사용해 FCM onMessage 수신분과 중복 제거)
+ */
+export const fromExpoNotification = (notification: Notifications.Notification): IncomingNotification => {
+  const { identifier, content } = notification.request;
+  const data = (content.data || {}) as Record<string, unknown>;
+
+  return {
+    id: getFcmMessageId(data) || identifier,
+    title: content.title,
+    body: content.body,
+    data,
+  };
+};
+
+/**
+ * FCM 메시지 → 수신 알림
+ */
+export const fromRemoteMessage = (remoteMessage: FirebaseMessagingTypes.RemoteMessage): IncomingNotification => {
+  const data = (remoteMessage.data || {}) as Record<string, unknown>;
+
+  return {
+    id: remoteMessage.messageId || (typeof data.messageId === 'string' ? data.messageId : `fcm_${Date.now()}`),
+    title: remoteMessage.notification?.title ?? (typeof data.title === 'string' ? data.title : null),
+    body: remoteMessage.notification?.body ?? (typeof data.body === 'string' ? data.body : null),
+    data,
+  };
+};
+
+/**
+ * 알림 처리 결정
+ * - data.silent 또는 제목/본문이 없는 데이터 메시지: 배너 없이 웹 전달만
+ * - 보고 있는 채팅방의 메시지: 배너 없이 웹 전달만
+ * - 다른 채팅방의 메시지: 채팅방별로 묶어 표시
+ * - 사용자가 끈 카테고리: 배너 없이 웹 전달만
+ * 앱 배지는 알림 보관함의 읽지 않은 수로 관리 (notificationInboxService)
+ */
+export const decideNotification = (notification: IncomingNotification): NotificationDecision => {
+  const { chatRoomId } = pickRouteParams(notification.data);
+  const category = getNotificationCategory(notification.data);
+  const isActiveChat = !!chatRoomId && chatRoomId === getActiveChatRoomId();
+  const silent = isTruthyFlag(notification.data.silent) || (!notification.title && !notification.body);
+
+  return {
+    showBanner: !silent && !isActiveChat && isCategoryEnabled(category),
+    forwardToWeb: true,
+    groupKey: chatRoomId && !isActiveChat ? getChatGroupKey(chatRoomId) : null,
+    category,
+  };
+};
+
+/**
+ * 알림 표시 설정 (앱 전체에서 1회)
+ * 배지는 shouldSetBadge 대신 알림 보관함의 읽지 않은 수로 직접 갱신
+ */
+export const configureNotificationHandler = (): void => {
+  if (isHandlerConfigured) return;
+  isHandlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async (notification) => {
+      const { showBanner } = decideNotification(fromExpoNotification(notification));
+      return {
+        shouldShowBanner: showBanner,
+        shouldShowList: showBanner,
+        shouldPlaySound: showBanner,
+        shouldSetBadge: false,
+      };
+    },
+  });
+};
+
+/**
+ * 수신 알림 처리 (중복이면 무시)
+ */
+const processNotification = async (
+  notification: IncomingNotification,
+  fromFcm: boolean,
+  onForward: (event: NotificationReceivedEvent) => void
+): Promise<void> => {
+  if (!markProcessed(notification.id)) {
+    console.log('[Notification] Duplicate ignored:', notification.id);
+    return;
+  }
+
+  const decision = decideNotification(notification);
+  console.log('[Notification] Received:', notification.id, JSON.stringify(decision));
+
+  if (decision.forwardToWeb) {
+    onForward({ ...notification, presentation: decision.showBanner ? 'system' : 'inPage' });
+  }
+
+  // Android FCM 포그라운드 메시지는 시스템이 표시하지 않으므로 로컬 알림으로 표시
+  // (data.messageId로 expo 수신 리스너에서 중복 처리되지 않도록 하고,
+  // 묶음 알림은 같은 identifier로 예약해 이전 알림을 교체)
+  // iOS는 시스템이 이미 표시하고 표시 여부는 setNotificationHandler에서 결정하므로 다시 표시하지 않음
+  if (fromFcm && decision.showBanner && Platform.OS === 'android') {
+    const count = decision.groupKey ? (groupCounts.get(decision.groupKey) || 0) + 1 : 1;
+    if (decision.groupKey) {
+      groupCounts.set(decision.groupKey, count);
+    }
+    const body = notification.body || '';
+
+    try {
+      await Notifications.scheduleNotificationAsync({
+        identifier: decision.groupKey || notification.id,
+        content: {
+          title: notification.title || '알림',
+          body: count > 1 ? `[새 메시지 ${count}개] ${body}` : body,
+          data: { ...notification.data, messageId: notification.id },
+        },
+        // 카테고리 채널로 표시
+        trigger: { channelId: decision.category },
+      });
+    } catch (error) {
+      console.error('[Notification] Local notification error:', error);
+    }
+  }
+};
+
+/**
+ * 알림 탭 처리 (같은 탭이 여러 리스너로 오면 한 번만 처리, 이미 처리했으면 false)
+ */
+export const markNotificationOpened = (notification: IncomingNotification): boolean => {
+  if (!markOpened(notification.id)) {
+    console.log('[Notification] Duplicate tap ignored:', notification.id);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 포그라운드 알림 수신 시작 (FCM onMessage + expo 수신 리스너)
+ * onForward: 웹으로 전달할 알림 콜백, 해제 함수 반환
+ */
+export const startNotificationPipeline = (
+  onForward: (event: NotificationReceivedEvent) => void
+): (() => void) => {
+  configureNotificationHandler();
+  setupNotificationChannels();
+  loadNotificationPreferences();
+
+  const receivedSubscription = Notifications.addNotificationReceivedListener((notification) => {
+    processNotification(fromExpoNotification(notification), false, onForward);
+  });
+
+  const unsubscribeFcm = messaging().onMessage(async (remoteMessage) => {
+    console.log('[Notification] FCM foreground message:', remoteMessage.messageId);
+    await processNotification(fromRemoteMessage(remoteMessage), true, onForward);
+  });
+
+  return () => {
+    receivedSubscription.remove();
+    unsubscribeFcm();
+  };
+};
+
+export default {
+  configureNotificationHandler,
+  decideNotification,
+  markNotificationOpened,
+  setCurrentRoute,
+  startNotificationPipeline,
+};
@@ -0,0 +1,149 @@
+/**
+ * Permission Service - 네이티브 권한 확인/요청
+ * 카메라, 사진, 위치, 알림, 마이크 권한 상태를 웹에 전달하고,
+ * 영구 거부(다시 묻기 불가)된 경우 웹이 설정 화면으로 안내할 수 있도록 합니다.
+ */
+
+import { Linking } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import { getRecordingPermissionsAsync, requestRecordingPermissionsAsync } from 'expo-audio';
+
+import { PermissionStatus, PermissionType } from '../bridge/protocol';
+import { BridgeError } from '../bridge/errors';
+
+// 지원 권한 목록
+export const PERMISSION_TYPES: PermissionType[] = ['camera', 'photos', 'location', 'notifications', 'microphone'];
+
+// expo 권한 응답 공통 필드
+interface NativePermissionResponse {
+  status: string;
+  granted: boolean;
+  canAskAgain: boolean;
+}
+
+/**
+ * 권한 응답을 브릿지 권한 상태로 변환
+ * limited: iOS 사진 일부 접근, 대략적 위치, iOS 임시(provisional) 알림
+ */
+const toPermissionStatus = (response: NativePermissionResponse, limited: boolean): PermissionStatus => {
+  const denied = !response.granted && response.status === 'denied';
+
+  return {
+    status: response.granted ? (limited ? 'limited' : 'granted') : denied ? 'denied' : 'undetermined',
+    granted: response.granted,
+    denied,
+    permanentlyDenied: denied && !response.canAskAgain,
+    limited: response.granted && limited,
+    canAskAgain: response.canAskAgain,
+  };
+};
+
+/**
+ * 권한 종류별 상태 조회/요청
+ */
+const resolvePermission = async (permissionType: PermissionType, request: boolean): Promise<PermissionStatus> => {
+  switch (permissionType) {
+    case 'camera': {
+      const response = request
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.getCameraPermissionsAsync();
+      return toPermissionStatus(response, false);
+    }
+    case 'photos': {
+      const response = request
+        ? await ImagePicker.requestMediaLibraryPermissionsAsync()
+        : await ImagePicker.getMediaLibraryPermissionsAsync();
+      return toPermissionStatus(response, response.accessPrivileges === 'limited');
+    }
+    case 'location': {
+      const response = request
+        ? await Location.requestForegroundPermissionsAsync()
+        : await Location.getForegroundPermissionsAsync();
+      return toPermissionStatus(response, response.android?.accuracy === 'coarse');
+    }
+    case 'notifications': {
+      const response = request
+        ? await Notifications.requestPermissionsAsync()
+        : await Notifications.getPermissionsAsync();
+      return toPermissionStatus(
+        response,
+        response.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL
+      );
+    }
+    case 'microphone': {
+      const response = request
+        ? await requestRecordingPermissionsAsync()
+        : await getRecordingPermissionsAsync();
+      return toPermissionStatus(response, false);
+    }
+  }
+};
+
+/**
+ * 권한 확인 실패 시 기본 상태
+ */
+const unknownPermissionStatus = (): PermissionStatus => ({
+  status: 'denied',
+  granted: false,
+  denied: true,
+  permanentlyDenied: false,
+  limited: false,
+  canAskAgain: false,
+});
+
+/**
+ * 권한 상태 확인 (요청 팝업 없음)
+ */
+export const checkPermission = async (permissionType: PermissionType): Promise<PermissionStatus> => {
+  try {
+    return await resolvePermission(permissionType, false);
+  } catch (error) {
+    console.error('[Permission] Check error:', permissionType, error);
+    return unknownPermissionStatus();
+  }
+};
+
+/**
+ * 권한 요청 (다시 묻기 불가 상태면 팝업 없이 현재 상태 반환)
+ */
+export const requestPermission = async (permissionType: PermissionType): Promise<PermissionStatus> => {
+  try {
+    const status = await resolvePermission(permissionType, true);
+    console.log('[Permission] Requested:', permissionType, status.status);
+    return status;
+  } catch (error) {
+    console.error('[Permission] Request error:', permissionType, error);
+    return unknownPermissionStatus();
+  }
+};
+
+/**
+ * 권한 거부 에러 생성 (영구 거부면 E_PERMISSION_BLOCKED)
+ */
+export const createPermissionError = (permissionType: PermissionType, status: PermissionStatus): BridgeError => {
+  return status.permanentlyDenied || !status.canAskAgain
+    ? new BridgeError('E_PERMISSION_BLOCKED', `${permissionType} permission blocked`)
+    : new BridgeError('E_PERMISSION_DENIED', `${permissionType} permission denied`);
+};
+
+/**
+ * 앱 설정 화면 열기 (영구 거부된 권한 안내용)
+ */
+export const openAppSettings = async (): Promise<boolean> => {
+  try {
+    await Linking.openSettings();
+    return true;
+  } catch (error) {
+    console.error('[Permission] Open settings error:', error);
+    return false;
+  }
+};
+
+export default {
+  checkPermission,
+  requestPermission,
+  createPermissionError,
+  openAppSettings,
+};
@@ -0,0 +1,217 @@
+/**
+ * Deep Link Routes - 딥링크 파라미터 ↔ 웹 경로 매핑 테이블
+ * 앱 링크(useDeepLink), 푸시 알림(fcmService), 카카오 공유(kakaoShareService)가
+ * 모두 이 테이블로 ID 파라미터와 웹 경로를 서로 변환합니다.
+ * 웹앱 경로 목록은 웹팀과 공유하는 src/config/webAppRoutes.json 기준입니다.
+ */
+
+import webAppRoutes from '../config/webAppRoutes.json';
+
+// 라우트 파라미터 이름
+export type DeepLinkRouteParam =
+  | 'productId'
+  | 'eventId'
+  | 'programId'
+  | 'postId'
+  | 'reservationId'
+  | 'chatRoomId';
+
+// 라우트 파라미터 값 (링크 쿼리, 푸시 data, 카카오 executionParams 공통)
+export type DeepLinkRouteParams = Partial<Record<DeepLinkRouteParam, string>>;
+
+// 라우트 정의 (path의 :id 자리에 파라미터 값이 들어감)
+export interface DeepLinkRoute {
+  param: DeepLinkRouteParam;
+  path: string;
+  // 로그인 필요 (로그아웃 상태면 로그인 후 다시 이동)
+  requiresAuth?: boolean;
+}
+
+// 경로 매칭 결과
+export interface DeepLinkRouteMatch {
+  route: DeepLinkRoute;
+  id: string;
+  params: DeepLinkRouteParams;
+}
+
+/**
+ * 라우트 테이블 (여러 파라미터가 함께 오면 앞에 있는 라우트 우선)
+ */
+export const DEEP_LINK_ROUTES: DeepLinkRoute[] = [
+  { param: 'productId', path: '/product/:id' },
+  { param: 'eventId', path: '/event/:id' },
+  { param: 'programId', path: '/program/:id' },
+  { param: 'postId', path: '/community/post/:id' },
+  { param: 'reservationId', path: '/reservation-detail/:id', requiresAuth: true },
+  { param: 'chatRoomId', path: '/chat/:id', requiresAuth: true },
+];
+
+export const DEEP_LINK_ROUTE_PARAMS: DeepLinkRouteParam[] = DEEP_LINK_ROUTES.map((route) => route.param);
+
+// 라우트 경로 → 매칭 정규식 (/product/:id → ^/product/([^/]+)/?$)
+const ROUTE_PATTERNS = DEEP_LINK_ROUTES.map((route) => ({
+  route,
+  pattern: new RegExp(`^${route.path.replace(':id', '([^/]+)')}/?$`),
+}));
+
+// 웹앱이 처리하는 경로 (라우트 테이블 + 웹 라우트 설정)
+export const WEB_APP_PATH_PREFIXES: string[] = Array.from(
+  new Set([...DEEP_LINK_ROUTES.map((route) => route.path.replace('/:id', '')), ...webAppRoutes.pathPrefixes])
+);
+
+// 로그인이 필요한 경로 (라우트 테이블의 requiresAuth 라우트 + 웹 라우트 설정)
+export const AUTH_REQUIRED_PATH_PREFIXES: string[] = Array.from(
+  new Set([
+    ...DEEP_LINK_ROUTES.filter((route) => route.requiresAuth).map((route) => route.path.replace('/:id', '')),
+    ...webAppRoutes.authRequiredPathPrefixes,
+  ])
+);
+
+/**
+ * 경로가 prefix 자신이거나 하위 경로인지 확인
+ */
+const hasPathPrefix = (path: string, prefixes: string[]): boolean => {
+  const [pathname] = path.split(/[?#]/);
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+};
+
+/**
+ * 웹앱 경로 여부 (루트 또는 WEB_APP_PATH_PREFIXES 하위 경로)
+ */
+export const isWebAppPath = (path: string): boolean => {
+  const [pathname] = path.split(/[?#]/);
+  if (pathname === '' || pathname === '/') return true;
+
+  return hasPathPrefix(pathname, WEB_APP_PATH_PREFIXES);
+};
+
+// 유니버설 링크(iOS associatedDomains) / 앱 링크(Android intentFilters) 호스트
+const UNIVERSAL_LINK_HOSTS = [
+  'camter.co.kr',
+  'www.camter.co.kr',
+  'camter-client.vercel.app',
+];
+
+/**
+ * 유니버설 링크면 호스트를 제외한 경로 반환, 쿼리·fragment 유지 (https://camter.co.kr/search?q=a → /search?q=a)
+ */
+export const getUniversalLinkPath = (url: string): string | null => {
+  const match = url.match(/^https:\/\/([^/?#:]+)(?::\d+)?([^]*)$/i);
+  if (!match || !UNIVERSAL_LINK_HOSTS.includes(match[1].toLowerCase())) {
+    return null;
+  }
+  const rest = match[2];
+  return rest.startsWith('/') ? rest : `/${rest}`;
+};
+
+/**
+ * 로그인이 필요한 경로 여부
+ */
+export const isAuthRequiredPath = (path: string): boolean => {
+  return hasPathPrefix(path, AUTH_REQUIRED_PATH_PREFIXES);
+};
+
+// WebView 이동 경로에 그대로 허용하는 문자 (그 외 문자는 퍼센트 인코딩)
+const UNSAFE_PATH_CHARS = /[^A-Za-z0-9\-._~%!$&()*+,;=:@/?#]/gu;
+
+/**
+ * WebView 이동 경로 검증/정리 (허용되지 않으면 null)
+ * - 상대 경로(/...)만 허용: 프로토콜 상대(//), 역슬래시, 제어 문자, 상위 경로(..) 거부
+ * - 경로가 웹앱 경로(라우트 테이블, webAppRoutes.json)가 아니면 거부
+ * - 따옴표 등 나머지 특수 문자는 퍼센트 인코딩
+ */
+export const sanitizeWebViewPath = (path: string | null | undefined): string | null => {
+  if (!path || !path.startsWith('/') || path.startsWith('//')) return null;
+  if (/[\\\u0000-\u001f\u007f]/.test(path)) return null;
+
+  const [pathname] = path.split(/[?#]/);
+  if (pathname.split('/').some((segment) => segment === '..' || segment === '.')) return null;
+  if (!isWebAppPath(pathname)) return null;
+
+  // encodeURIComponent는 작은따옴표를 인코딩하지 않으므로 직접 변환
+  return path.replace(UNSAFE_PATH_CHARS, (char) => (char === "'" ? '%27' : encodeURIComponent(char)));
+};
+
+/**
+ * 파라미터 값 정규화 (문자열/숫자만 허용, 빈 값 제외)
+ */
+const toParamValue = (value: unknown): string | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  return null;
+};
+
+/**
+ * 임의 객체(쿼리, 푸시 data 등)에서 라우트 파라미터만 추출
+ */
+export const pickRouteParams = (source: object | null | undefined): DeepLinkRouteParams => {
+  const params: DeepLinkRouteParams = {};
+  if (!source) return params;
+
+  DEEP_LINK_ROUTE_PARAMS.forEach((param) => {
+    const value = toParamValue((source as Record<string, unknown>)[param]);
+    if (value) {
+      params[param] = value;
+    }
+  });
+  return params;
+};
+
+/**
+ * 라우트 파라미터 → 웹 경로 (매칭되는 파라미터가 없으면 null)
+ */
+export const buildRoutePath = (source: object | null | undefined): string | null => {
+  const params = pickRouteParams(source);
+
+  for (const route of DEEP_LINK_ROUTES) {
+    const value = params[route.param];
+    if (value) {
+      return route.path.replace(':id', encodeURIComponent(value));
+    }
+  }
+  return null;
+};
+
+/**
+ * 웹 경로/URL → 라우트 매칭 (스킴·호스트·쿼리·fragment는 무시)
+ */
+export const matchRoutePath = (pathOrUrl: string | null | undefined): DeepLinkRouteMatch | null => {
+  if (!pathOrUrl) return null;
+
+  const path = pathOrUrl
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '')
+    .split(/[?#]/)[0];
+
+  for (const { route, pattern } of ROUTE_PATTERNS) {
+    const match = path.match(pattern);
+    if (match) {
+      let id: string;
+      try {
+        id = decodeURIComponent(match[1]);
+      } catch {
+        id = match[1];
+      }
+      return { route, id, params: { [route.param]: id } };
+    }
+  }
+  return null;
+};
+
+/**
+ * 웹 경로/URL → 라우트 파라미터 (카카오 executionParams, 앱 링크 쿼리용)
+ */
+export const toRouteParams = (pathOrUrl: string | null | undefined): DeepLinkRouteParams | null => {
+  return matchRoutePath(pathOrUrl)?.params ?? null;
+};
+
+export default {
+  DEEP_LINK_ROUTES,
+  pickRouteParams,
+  buildRoutePath,
+  matchRoutePath,
+  toRouteParams,
+  isWebAppPath,
+  isAuthRequiredPath,
+  getUniversalLinkPath,
+  sanitizeWebViewPath,
+};
@@ -3,35 +3,36 @@
  * camter 웹앱과 React Native 앱 간의 네이티브 기능 연동
  */
 
-import ImageCropPicker from 'react-native-image-crop-picker';
+import ImageCropPicker, {
+  Image as CropPickerImage,
+  Options as CropPickerOptions,
+} from 'react-native-image-crop-picker';
 import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system';
-
-// 이미지 선택 결과 타입
-export interface ImagePickerResult {
-  base64: string;
-  mimeType: string;
-  fileName: string;
-  path: string;
-}
-
-// 권한 상태 타입
-export interface PermissionStatus {
-  granted: boolean;
-  denied: boolean;
-  permanentlyDenied: boolean;
-  limited: boolean;
-}
-
-// 브릿지 메시지 타입
-export interface BridgeMessage {
-  type: string;
-  action?: string;
-  requestId?: string;
-  data?: unknown;
-  source?: 'camera' | 'gallery';  // pickImage용
-  callbackId?: string;
-}
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import * as FileSystem from 'expo-file-system/legacy';
+
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_ACTION_RESPONSE_TYPES,
+  BRIDGE_ACK_MESSAGE_TYPE,
+  BRIDGE_READY_MESSAGE_TYPE,
+  BridgeActionName,
+  BridgeMessage,
+  ImagePickerOptions,
+  ImagePickerResult,
+  ImageSource,
+  ImageTransferMode,
+  PermissionStatus,
+  VideoPickerOptions,
+  VideoPickerResult,
+  VideoThumbnail,
+} from '../bridge/protocol';
+import { BRIDGE_METHODS } from '../bridge/methods';
+import { BridgeError, toBridgeError } from '../bridge/errors';
+import { checkPermission, requestPermission, createPermissionError } from '../services/permissionService';
+import { registerFile, releaseFile } from '../services/fileHandleService';
+
+export type { BridgeMessage, ImagePickerResult, PermissionStatus, VideoPickerResult };
 
 // 콜백 저장소
 const pendingCallbacks = new Map<string, (result: unknown) => void>();
@@ -62,133 +63,412 @@ export const executeCallback = (callbackId: string, result: unknown): void => {
   }
 };
 
+// 이미지 피커 기본값 (레거시 프로필 사진 원형 크롭)
+const DEFAULT_CROP_SIZE = 400;
+const DEFAULT_RECT_CROP_WIDTH = 1080;
+const DEFAULT_IMAGE_QUALITY = 0.8;
+const DEFAULT_MAX_COUNT = 10;
+const DEFAULT_PICKER_LABELS = {
+  title: '사진 편집',
+  circleTitle: '프로필 사진 편집',  // 원형 크롭은 프로필 사진용
+  choose: '완료',
+  cancel: '취소',
+};
+
 /**
- * 이미지 선택 - 카메라 (react-native-image-crop-picker)
- * 원형 크롭 + 핀치 줌 지원
+ * 이미지 피커 옵션을 크롭 피커 옵션으로 변환
+ * 다중 선택 시에는 크롭을 지원하지 않음 (라이브러리 제한)
  */
-export const pickImageFromCamera = async (): Promise<ImagePickerResult | null> => {
-  try {
-    const result = await ImageCropPicker.openCamera({
-      width: 400,
-      height: 400,
-      cropping: true,
-      cropperCircleOverlay: true,  // 원형 크롭 오버레이
-      includeBase64: true,
-      mediaType: 'photo',
-      compressImageQuality: 0.8,
-      cropperToolbarTitle: '프로필 사진 편집',
-      cropperChooseText: '완료',
-      cropperCancelText: '취소',
-    });
-
-    if (!result || !result.data) {
-      return null;
-    }
-
-    const fileName = result.path.split('/').pop() || `image_${Date.now()}.jpg`;
+const buildCropPickerOptions = (options: ImagePickerOptions, allowMultiple: boolean): CropPickerOptions => {
+  const { cropShape = 'circle', aspectRatio, transfer = 'handle', labels = {} } = options;
+  const multiple = allowMultiple && !!options.multiple;
+  const cropping = cropShape !== 'none' && !multiple;
+
+  const common: CropPickerOptions = {
+    mediaType: 'photo',
+    includeBase64: transfer === 'base64',
+    compressImageQuality: options.quality ?? DEFAULT_IMAGE_QUALITY,
+    cropperToolbarTitle: labels.title ??
+      (cropShape === 'circle' ? DEFAULT_PICKER_LABELS.circleTitle : DEFAULT_PICKER_LABELS.title),
+    cropperChooseText: labels.choose ?? DEFAULT_PICKER_LABELS.choose,
+    cropperCancelText: labels.cancel ?? DEFAULT_PICKER_LABELS.cancel,
+    multiple,
+    maxFiles: multiple ? options.maxCount ?? DEFAULT_MAX_COUNT : undefined,
+  };
 
+  if (!cropping) {
+    // 크롭 없이 최대 크기만 제한
     return {
-      base64: result.data,
-      mimeType: result.mime || 'image/jpeg',
-      fileName,
-      path: result.path,
+      ...common,
+      cropping: false,
+      compressImageMaxWidth: options.width,
+      compressImageMaxHeight: options.height,
     };
-  } catch (error: any) {
-    // 사용자 취소는 에러로 처리하지 않음
-    if (error?.code === 'E_PICKER_CANCELLED') {
-      console.log('Camera picker cancelled');
-      return null;
-    }
-    console.error('Camera error:', error);
+  }
+
+  const isCircle = cropShape === 'circle';
+  const width = options.width ?? (isCircle ? DEFAULT_CROP_SIZE : DEFAULT_RECT_CROP_WIDTH);
+  const height = options.height ??
+    (aspectRatio ? Math.round((width * aspectRatio[1]) / aspectRatio[0]) : isCircle ? DEFAULT_CROP_SIZE : width);
+
+  return {
+    ...common,
+    cropping: true,
+    width,
+    height,
+    cropperCircleOverlay: isCircle,  // 원형 크롭 오버레이
+    freeStyleCropEnabled: cropShape === 'rect' && !aspectRatio,  // 비율 미지정 시 자유 크롭
+  };
+};
+
+// base64 전송 모드(레거시) 핸들 TTL - 웹은 base64를 사용하므로 짧게 유지 후 임시 파일 정리
+const BASE64_HANDLE_TTL_MS = 60 * 1000;
+
+/**
+ * 크롭 피커 결과를 브릿지 결과로 변환
+ * 파일은 핸들로 등록하고, base64 전송 모드일 때만 base64 포함
+ */
+const toImagePickerResult = (image: CropPickerImage, transfer: ImageTransferMode): ImagePickerResult | null => {
+  if (!image || (transfer === 'base64' && !image.data)) {
     return null;
   }
+
+  const fileName = image.path.split('/').pop() || `image_${Date.now()}.jpg`;
+  const mimeType = image.mime || 'image/jpeg';
+  const { handle } = registerFile({
+    uri: image.path,
+    mimeType,
+    fileName,
+    size: image.size,
+    temporary: true,
+  }, transfer === 'base64' ? BASE64_HANDLE_TTL_MS : undefined);
+
+  return {
+    handle,
+    base64: transfer === 'base64' ? image.data || undefined : undefined,
+    mimeType,
+    fileName,
+    path: image.path,
+    size: image.size,
+    width: image.width,
+    height: image.height,
+  };
+};
+
+/**
+ * 선택된 이미지 목록 변환 (maxSizeMB 초과 이미지는 제외)
+ */
+const toImagePickerResults = async (
+  images: CropPickerImage[],
+  options: ImagePickerOptions
+): Promise<ImagePickerResult[]> => {
+  const { transfer = 'handle', maxSizeMB } = options;
+  const maxBytes = maxSizeMB ? maxSizeMB * 1024 * 1024 : Infinity;
+
+  const accepted = images.filter((image) => image.size <= maxBytes);
+  const rejected = images.filter((image) => image.size > maxBytes);
+
+  await Promise.all(rejected.map((image) => ImageCropPicker.cleanSingle(image.path).catch(() => undefined)));
+  if (rejected.length > 0) {
+    console.warn(`Dropped ${rejected.length} image(s) larger than ${maxSizeMB}MB`);
+    if (accepted.length === 0) {
+      throw new BridgeError('E_LIMIT_EXCEEDED', `Image exceeds maxSizeMB (${maxSizeMB}MB)`);
+    }
+  }
+
+  const results = accepted
+    .map((image) => toImagePickerResult(image, transfer))
+    .filter((result): result is ImagePickerResult => result !== null);
+  if (results.length === 0) {
+    throw new BridgeError('E_INTERNAL', 'No image data');
+  }
+  return results;
+};
+
+/**
+ * 웹에서 취소된 요청이면 피커 결과를 핸들로 등록하기 전에 중단
+ * (열린 네이티브 피커는 닫을 수 없으므로 피커가 돌아온 시점에 확인)
+ */
+const throwIfCancelled = (signal: AbortSignal | undefined, name: string): void => {
+  if (signal?.aborted) {
+    console.log(`${name} - request cancelled by web, discarding picked file(s)`);
+    throw new BridgeError('E_CANCELLED', `${name} was cancelled`);
+  }
+};
+
+/**
+ * 크롭 피커 에러를 브릿지 에러로 변환
+ * 권한 에러는 현재 권한 상태를 확인해 영구 거부(E_PERMISSION_BLOCKED) 여부 구분
+ */
+const toPickerError = async (error: unknown, permissionType: 'camera' | 'photos'): Promise<BridgeError> => {
+  const bridgeError = toBridgeError(error);
+  if (bridgeError.code !== 'E_PERMISSION_DENIED') {
+    return bridgeError;
+  }
+  return createPermissionError(permissionType, await checkPermission(permissionType));
+};
+
+/**
+ * 이미지 선택 - 카메라 (react-native-image-crop-picker)
+ * 크롭 모양/비율/출력 크기/품질 설정 지원 (기본: 400x400 원형 크롭)
+ */
+export const pickImageFromCamera = async (
+  options: ImagePickerOptions = {},
+  signal?: AbortSignal
+): Promise<ImagePickerResult> => {
+  let image: CropPickerImage;
+
+  try {
+    image = (await ImageCropPicker.openCamera(buildCropPickerOptions(options, false))) as CropPickerImage;
+  } catch (error) {
+    // 사용자 취소는 E_CANCELLED, 권한 거부는 E_PERMISSION_DENIED/BLOCKED
+    const pickerError = await toPickerError(error, 'camera');
+    console.log('Camera picker failed:', pickerError.code, pickerError.message);
+    throw pickerError;
+  }
+
+  if (signal?.aborted && image) {
+    await ImageCropPicker.cleanSingle(image.path).catch(() => undefined);
+  }
+  throwIfCancelled(signal, 'pickImage');
+
+  const [result] = await toImagePickerResults(image ? [image] : [], options);
+  return result;
 };
 
 /**
  * 이미지 선택 - 갤러리 (react-native-image-crop-picker)
- * 원형 크롭 + 핀치 줌 지원
+ * 크롭 설정 및 다중 선택 지원 (multiple이면 배열 반환)
  */
-export const pickImageFromGallery = async (): Promise<ImagePickerResult | null> => {
+export const pickImageFromGallery = async (
+  options: ImagePickerOptions = {},
+  signal?: AbortSignal
+): Promise<ImagePickerResult | ImagePickerResult[]> => {
+  let selected: CropPickerImage | CropPickerImage[];
+
   try {
-    const result = await ImageCropPicker.openPicker({
-      width: 400,
-      height: 400,
-      cropping: true,
-      cropperCircleOverlay: true,  // 원형 크롭 오버레이
-      includeBase64: true,
-      mediaType: 'photo',
-      compressImageQuality: 0.8,
-      cropperToolbarTitle: '프로필 사진 편집',
-      cropperChooseText: '완료',
-      cropperCancelText: '취소',
-    });
+    selected = (await ImageCropPicker.openPicker(buildCropPickerOptions(options, true))) as
+      CropPickerImage | CropPickerImage[];
+  } catch (error) {
+    // 사용자 취소는 E_CANCELLED, 권한 거부는 E_PERMISSION_DENIED/BLOCKED
+    const pickerError = await toPickerError(error, 'photos');
+    console.log('Gallery picker failed:', pickerError.code, pickerError.message);
+    throw pickerError;
+  }
 
-    if (!result || !result.data) {
-      return null;
-    }
+  const images = Array.isArray(selected) ? selected : selected ? [selected] : [];
+  if (signal?.aborted) {
+    await Promise.all(images.map((image) => ImageCropPicker.cleanSingle(image.path).catch(() => undefined)));
+  }
+  throwIfCancelled(signal, 'pickImage');
 
-    const fileName = result.path.split('/').pop() || `image_${Date.now()}.jpg`;
+  const results = await toImagePickerResults(images, options);
 
-    return {
-      base64: result.data,
-      mimeType: result.mime || 'image/jpeg',
-      fileName,
-      path: result.path,
-    };
-  } catch (error: any) {
-    // 사용자 취소는 에러로 처리하지 않음
-    if (error?.code === 'E_PICKER_CANCELLED') {
-      console.log('Gallery picker cancelled');
-      return null;
-    }
-    console.error('Gallery error:', error);
-    return null;
+  if (options.multiple) {
+    return results;
   }
+  return results[0];
 };
 
 /**
  * 이미지 선택 - source에 따라 분기
  */
-export const pickImage = async (source: 'camera' | 'gallery'): Promise<ImagePickerResult | null> => {
+export const pickImage = async (
+  source: ImageSource,
+  options: ImagePickerOptions = {},
+  signal?: AbortSignal
+): Promise<ImagePickerResult | ImagePickerResult[]> => {
   if (source === 'camera') {
-    return pickImageFromCamera();
+    const result = await pickImageFromCamera(options, signal);
+    // 카메라는 한 장만 촬영하므로 다중 선택 요청이면 배열로 감싸서 반환
+    return options.multiple ? [result] : result;
   } else {
-    return pickImageFromGallery();
+    return pickImageFromGallery(options, signal);
   }
 };
 
 /**
- * 권한 확인
+ * 선택된 이미지 폐기 (웹에서 취소된 요청의 임시 파일 정리)
  */
-export const checkPermission = async (permissionType: 'camera' | 'photos'): Promise<PermissionStatus> => {
-  try {
-    let status: ImagePicker.PermissionStatus;
-
-    if (permissionType === 'camera') {
-      const result = await ImagePicker.getCameraPermissionsAsync();
-      status = result.status;
-    } else {
-      const result = await ImagePicker.getMediaLibraryPermissionsAsync();
-      status = result.status;
+export const discardPickedImage = async (
+  result: ImagePickerResult | ImagePickerResult[] | null
+): Promise<void> => {
+  if (!result) return;
+
+  const results = Array.isArray(result) ? result : [result];
+  for (const image of results) {
+    await releaseFile(image.handle);
+    try {
+      await ImageCropPicker.cleanSingle(image.path);
+    } catch (error) {
+      console.warn('Image cleanup error:', error);
     }
+  }
+};
+
+// 동영상 피커 기본값
+const DEFAULT_VIDEO_QUALITY = ImagePicker.UIImagePickerControllerQualityType.High;
+const DEFAULT_THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * 동영상 썸네일 생성 (첫 프레임)
+ * 썸네일은 작으므로 핸들과 함께 base64도 전달, 실패해도 동영상 선택은 유지
+ */
+const createVideoThumbnail = async (uri: string): Promise<VideoThumbnail | null> => {
+  try {
+    const thumbnail = await VideoThumbnails.getThumbnailAsync(uri, {
+      time: 0,
+      quality: DEFAULT_THUMBNAIL_QUALITY,
+    });
+    const info = await FileSystem.getInfoAsync(thumbnail.uri);
+    const fileName = thumbnail.uri.split('/').pop() || `thumbnail_${Date.now()}.jpg`;
+    const { handle } = registerFile({
+      uri: thumbnail.uri,
+      mimeType: 'image/jpeg',
+      fileName,
+      size: info.exists ? info.size : 0,
+      temporary: true,
+    });
+    const base64 = await FileSystem.readAsStringAsync(thumbnail.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
 
     return {
-      granted: status === 'granted',
-      denied: status === 'denied',
-      permanentlyDenied: status === 'denied',
-      limited: false,
+      handle,
+      base64,
+      mimeType: 'image/jpeg',
+      width: thumbnail.width,
+      height: thumbnail.height,
     };
   } catch (error) {
-    console.error('Permission check error:', error);
-    return {
-      granted: false,
-      denied: true,
-      permanentlyDenied: false,
-      limited: false,
+    console.warn('Video thumbnail error:', error);
+    return null;
+  }
+};
+
+/**
+ * 동영상 선택 - 카메라 촬영 또는 갤러리 (expo-image-picker)
+ * 파일은 핸들로 등록하고 재생 시간/해상도/크기/썸네일을 함께 반환
+ * maxDurationSec: 카메라는 촬영 시간 제한, 갤러리는 초과 동영상 거부
+ */
+export const pickVideo = async (
+  source: ImageSource,
+  options: VideoPickerOptions = {},
+  signal?: AbortSignal
+): Promise<VideoPickerResult> => {
+  const { maxDurationSec, maxSizeMB } = options;
+  let asset: ImagePicker.ImagePickerAsset;
+
+  try {
+    const pickerOptions: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['videos'],
+      videoMaxDuration: maxDurationSec,
+      videoQuality: DEFAULT_VIDEO_QUALITY,
     };
+
+    let result: ImagePicker.ImagePickerResult;
+    if (source === 'camera') {
+      // expo-image-picker는 카메라 권한을 직접 요청하지 않으므로 먼저 확인
+      const permission = await requestPermission('camera');
+      if (!permission.granted) {
+        throw createPermissionError('camera', permission);
+      }
+      // 동영상은 소리도 녹음하므로 마이크 권한도 확인 (거부 시 무음 녹화 대신 권한 에러)
+      const microphonePermission = await requestPermission('microphone');
+      if (!microphonePermission.granted) {
+        throw createPermissionError('microphone', microphonePermission);
+      }
+      result = await ImagePicker.launchCameraAsync(pickerOptions);
+    } else {
+      result = await ImagePicker.launchImageLibraryAsync(pickerOptions);
+    }
+
+    if (result.canceled || !result.assets?.length) {
+      throw new BridgeError('E_CANCELLED', 'Video picker cancelled');
+    }
+    asset = result.assets[0];
+  } catch (error) {
+    const pickerError = toBridgeError(error);
+    console.log('Video picker failed:', pickerError.code, pickerError.message);
+    throw pickerError;
+  }
+
+  if (signal?.aborted) {
+    await FileSystem.deleteAsync(asset.uri, { idempotent: true }).catch(() => undefined);
+  }
+  throwIfCancelled(signal, 'pickVideo');
+
+  let size = asset.fileSize;
+  if (size === undefined) {
+    const info = await FileSystem.getInfoAsync(asset.uri);
+    size = info.exists ? info.size : 0;
+  }
+  const duration = (asset.duration ?? 0) / 1000;  // ms → 초
+
+  // 갤러리 동영상은 선택 후 제한 확인 (초과 시 임시 파일 정리)
+  let limitError: string | null = null;
+  if (maxSizeMB && size > maxSizeMB * 1024 * 1024) {
+    limitError = `Video exceeds maxSizeMB (${maxSizeMB}MB)`;
+  } else if (maxDurationSec && duration > maxDurationSec + 1) {
+    limitError = `Video exceeds maxDurationSec (${maxDurationSec}s)`;
+  }
+  if (limitError) {
+    await FileSystem.deleteAsync(asset.uri, { idempotent: true }).catch(() => undefined);
+    throw new BridgeError('E_LIMIT_EXCEEDED', limitError);
+  }
+
+  const fileName = asset.fileName || asset.uri.split('/').pop() || `video_${Date.now()}.mp4`;
+  const mimeType = asset.mimeType || 'video/mp4';
+  const { handle } = registerFile({
+    uri: asset.uri,
+    mimeType,
+    fileName,
+    size,
+    // expo-image-picker는 선택한 파일을 캐시 디렉토리에 복사하므로 임시 파일로 관리
+    temporary: true,
+  });
+
+  return {
+    handle,
+    mimeType,
+    fileName,
+    path: asset.uri,
+    size,
+    width: asset.width,
+    height: asset.height,
+    duration,
+    thumbnail: await createVideoThumbnail(asset.uri),
+  };
+};
+
+/**
+ * 선택된 동영상 폐기 (웹에서 취소된 요청의 임시 파일 정리)
+ */
+export const discardPickedVideo = async (result: VideoPickerResult | null): Promise<void> => {
+  if (!result) return;
+
+  await releaseFile(result.handle);
+  if (result.thumbnail) {
+    await releaseFile(result.thumbnail.handle);
   }
 };
 
+// 주입 스크립트용 메서드 정의 (선언 파일용 설명/타입 제외)
+const getInjectedMethodSpecs = () => {
+  return (Object.keys(BRIDGE_METHODS) as BridgeActionName[])
+    .filter((action) => BRIDGE_METHODS[action] && !BRIDGE_METHODS[action]!.custom)
+    .map((action) => {
+      const spec = BRIDGE_METHODS[action]!;
+      return {
+        action,
+        mode: spec.mode,
+        params: spec.params.map((param) => param.target),
+        options: spec.options && { fields: spec.options.fields, forwardTimeout: !!spec.options.forwardTimeout },
+        timeout: spec.timeout,
+      };
+    });
+};
+
 /**
  * WebView에 주입할 JavaScript 코드 생성
  * 웹에서 window.NativeBridge를 통해 RN 네이티브 기능 호출
@@ -205,151 +485,448 @@ export const generateInjectedJavaScript = (): string => {
         return Date.now() + '-' + Math.random().toString(36).substring(2, 9);
       }
 
+      // 문서 식별자 (리로드되면 새로 생성, RN은 이전 문서로 보낼 응답을 폐기)
+      window._bridgePageId = window._bridgePageId || generateRequestId();
+
       // 대기 중인 요청 저장소
       window._pendingRequests = window._pendingRequests || {};
 
+      // 요청 타임아웃 (ms) - 사용자 입력이 필요한 요청(피커, 권한 팝업)은 길게
+      var DEFAULT_TIMEOUT_MS = 15000;
+      var INTERACTIVE_TIMEOUT_MS = 300000;
+
+      // 브릿지 에러 타입 (code: BridgeErrorCode - E_CANCELLED, E_PERMISSION_DENIED, E_TIMEOUT 등)
+      function NativeBridgeError(code, message) {
+        this.name = 'NativeBridgeError';
+        this.code = code;
+        this.message = message;
+        this.stack = new Error(message).stack;
+      }
+      NativeBridgeError.prototype = Object.create(Error.prototype);
+      NativeBridgeError.prototype.constructor = NativeBridgeError;
+      window.NativeBridgeError = NativeBridgeError;
+
+      // 액션별 타입 기반 응답 이름 (레거시 응답 매칭용)
+      var RESPONSE_TYPES = ${JSON.stringify(BRIDGE_ACTION_RESPONSE_TYPES)};
+
+      // 응답 타입별 대기 큐 (FIFO)
+      // requestId 없이 handleNativeResponseByType으로 오는 응답을 같은 타입의 가장 오래된 레거시 요청에 매칭
+      // requestId 기반 요청은 requestId로만 응답받으므로 등록하지 않음
+      window._pendingByType = window._pendingByType || {};
+
+      function enqueueByType(action, entry) {
+        var responseType = RESPONSE_TYPES[action];
+        if (!responseType) return;
+
+        entry.responseType = responseType;
+        window._pendingByType[responseType] = window._pendingByType[responseType] || [];
+        window._pendingByType[responseType].push(entry);
+      }
+
+      function dequeueByType(entry) {
+        var queue = entry.responseType && window._pendingByType[entry.responseType];
+        if (!queue) return;
+
+        var index = queue.indexOf(entry);
+        if (index !== -1) {
+          queue.splice(index, 1);
+        }
+      }
+
+      // RN으로 메시지 전송
+      function sendToNative(message) {
+        message.pageId = window._bridgePageId;
+        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      }
+
+      // 대기 중인 요청 제거 (타이머 및 abort 리스너 해제)
+      function settleRequest(requestId) {
+        var pending = window._pendingRequests[requestId];
+        if (!pending) return null;
+
+        delete window._pendingRequests[requestId];
+        clearTimeout(pending.timer);
+        if (pending.signal) {
+          pending.signal.removeEventListener('abort', pending.onAbort);
+        }
+        return pending;
+      }
+
+      // 요청 취소 (웹 promise reject + 네이티브에 cancelRequest 전송)
+      // 네이티브는 결과를 폐기할 뿐 이미 열린 피커/권한 팝업을 닫지는 못함
+      // _pendingRequests는 웹 코드와 공유하므로 rejectRequest가 없는 항목은 reject로 처리
+      function cancelRequest(requestId, code, message) {
+        var pending = settleRequest(requestId);
+        if (!pending) return;
+
+        try {
+          sendToNative({ action: 'cancelRequest', type: 'cancelRequest', data: { requestId: requestId } });
+        } catch (e) {
+          console.error('[NativeBridge] cancelRequest error:', e);
+        }
+        var reject = typeof pending.rejectRequest === 'function' ? pending.rejectRequest : pending.reject;
+        if (typeof reject === 'function') {
+          reject(new NativeBridgeError(code, message));
+        }
+      }
+
+      // 요청 옵션(timeoutMs, signal)을 제외한 payload 옵션 복사
+      function withoutCallOptions(options) {
+        var payload = {};
+        for (var key in options) {
+          if (key !== 'timeoutMs' && key !== 'signal') {
+            payload[key] = options[key];
+          }
+        }
+        return payload;
+      }
+
+      // requestId 기반 요청 전송
+      // options: { timeoutMs: number, signal: AbortSignal }
+      function request(action, fields, options, defaultTimeoutMs) {
+        options = options || {};
+
+        return new Promise(function(resolve, reject) {
+          if (options.signal && options.signal.aborted) {
+            reject(new NativeBridgeError('E_CANCELLED', action + ' was aborted'));
+            return;
+          }
+
+          var requestId = generateRequestId();
+          var timeoutMs = options.timeoutMs || defaultTimeoutMs || DEFAULT_TIMEOUT_MS;
+
+          var pending = {
+            action: action,
+            signal: options.signal,
+            rejectRequest: reject,
+            resolve: function(result) {
+              settleRequest(requestId);
+              resolve(result);
+            },
+            reject: function(error) {
+              settleRequest(requestId);
+              reject(error);
+            },
+            onAbort: function() {
+              cancelRequest(requestId, 'E_CANCELLED', action + ' was aborted');
+            },
+            timer: setTimeout(function() {
+              cancelRequest(requestId, 'E_TIMEOUT', action + ' timed out after ' + timeoutMs + 'ms');
+            }, timeoutMs)
+          };
+
+          if (options.signal) {
+            options.signal.addEventListener('abort', pending.onAbort);
+          }
+          window._pendingRequests[requestId] = pending;
+
+          var message = { action: action, type: action, requestId: requestId };
+          for (var key in fields) {
+            message[key] = fields[key];
+          }
+
+          try {
+            sendToNative(message);
+          } catch (e) {
+            settleRequest(requestId);
+            reject(new NativeBridgeError('E_BRIDGE_UNAVAILABLE', String(e)));
+          }
+        });
+      }
+
+      // requestId 없는 레거시 요청 (postMessage 직접 호출)
+      // 응답 타입 큐에 등록하고, 타입 기반 응답이 오면 resolve되는 promise 반환
+      function legacyRequest(action) {
+        if (!RESPONSE_TYPES[action]) return undefined;
+
+        var promise = new Promise(function(resolve, reject) {
+          var entry = {
+            action: action,
+            resolve: function(result) {
+              clearTimeout(entry.timer);
+              dequeueByType(entry);
+              resolve(result);
+            },
+            reject: function(error) {
+              clearTimeout(entry.timer);
+              dequeueByType(entry);
+              reject(error);
+            },
+            timer: setTimeout(function() {
+              entry.reject(new NativeBridgeError('E_TIMEOUT', action + ' timed out after ' + INTERACTIVE_TIMEOUT_MS + 'ms'));
+            }, INTERACTIVE_TIMEOUT_MS)
+          };
+          enqueueByType(action, entry);
+        });
+
+        // 반환값을 사용하지 않는 기존 호출부에서 unhandled rejection이 나지 않도록 처리
+        promise.catch(function() {});
+        return promise;
+      }
+
+      // requestId 기반 응답 처리 (NativeBridge로 보낸 요청만 처리하고 true 반환)
+      window._resolveNativeRequest = function(response) {
+        var pending = response && window._pendingRequests[response.requestId];
+        if (!pending) return false;
+
+        if (response.success) {
+          pending.resolve(response.data);
+        } else {
+          pending.reject(new NativeBridgeError(response.code || 'E_INTERNAL', response.error || 'Unknown error'));
+        }
+        return true;
+      };
+
+      // 네이티브 이벤트 리스너 저장소
+      window._nativeEventListeners = window._nativeEventListeners || {};
+
+      // 네이티브 → 웹 이벤트 디스패치 (RN의 emitToWeb에서 호출)
+      window._dispatchNativeEvent = function(event, payload) {
+        var listeners = (window._nativeEventListeners[event] || []).slice();
+        listeners.forEach(function(listener) {
+          try {
+            listener(payload);
+          } catch (e) {
+            console.error('[NativeBridge] Event listener error:', event, e);
+          }
+        });
+      };
+
+      // 위치 추적 리스너 (watchId → listener)
+      var _locationWatches = {};
+      // watchPosition 응답 전에 도착한 마지막 위치 (watchId → position, 리스너 등록 시 전달)
+      var _pendingWatchPositions = {};
+
+      window._nativeEventListeners.locationChange = window._nativeEventListeners.locationChange || [];
+      window._nativeEventListeners.locationChange.push(function(event) {
+        var listener = _locationWatches[event.watchId];
+        if (typeof listener === 'function') {
+          listener(event.position);
+        } else if (event.watchId) {
+          _pendingWatchPositions[event.watchId] = event.position;
+        }
+      });
+
+      // 처리한 RN 메시지 id (재전송 중복 처리 방지, 최근 MAX_DELIVERED_IDS개만 유지)
+      var MAX_DELIVERED_IDS = 200;
+      var _deliveredIds = {};
+      var _deliveredOrder = [];
+
+      function markDelivered(id) {
+        _deliveredIds[id] = true;
+        _deliveredOrder.push(id);
+        if (_deliveredOrder.length > MAX_DELIVERED_IDS) {
+          delete _deliveredIds[_deliveredOrder.shift()];
+        }
+      }
+
+      // RN 메시지 처리 (처리하지 못하면 false → ack하지 않아 RN이 재전송)
+      function handleQueuedMessage(item) {
+        if (item.kind === 'response') {
+          if (window._resolveNativeRequest(item.response)) {
+            return true;
+          }
+          if (window.handleNativeResponse) {
+            window.handleNativeResponse(item.response);
+            return true;
+          }
+          return false;
+        }
+        if (item.kind === 'typedResponse') {
+          window.handleNativeResponseByType(item.type, item.result, item.error);
+          return true;
+        }
+        if (item.kind === 'event') {
+          window._dispatchNativeEvent(item.event, item.payload);
+          return true;
+        }
+        return false;
+      }
+
+      // RN 메시지 큐 전달 (응답/이벤트 묶음), 처리한 id를 ack로 응답
+      window._deliverNativeMessages = function(items) {
+        var ids = [];
+        var stale = [];
+
+        items.forEach(function(item) {
+          // 다른(이전) 문서로 보낸 응답은 폐기
+          if (item.pageId && item.pageId !== window._bridgePageId) {
+            stale.push(item.id);
+            return;
+          }
+          if (_deliveredIds[item.id]) {
+            ids.push(item.id);
+            return;
+          }
+          try {
+            if (handleQueuedMessage(item)) {
+              markDelivered(item.id);
+              ids.push(item.id);
+            }
+          } catch (e) {
+            console.error('[NativeBridge] Message delivery error:', item.kind, e);
+            markDelivered(item.id);
+            ids.push(item.id);
+          }
+        });
+
+        if (ids.length > 0 || stale.length > 0) {
+          sendToNative({
+            type: '${BRIDGE_ACK_MESSAGE_TYPE}',
+            action: '${BRIDGE_ACK_MESSAGE_TYPE}',
+            data: { ids: ids, stale: stale }
+          });
+        }
+      };
+
+      // 페이지 언로드 시 대기 중인 요청 정리
+      window.addEventListener('pagehide', function() {
+        Object.keys(window._pendingRequests).forEach(function(requestId) {
+          cancelRequest(requestId, 'E_CANCELLED', 'Page unloaded');
+        });
+        Object.keys(window._pendingByType).forEach(function(type) {
+          window._pendingByType[type].slice().forEach(function(entry) {
+            entry.reject(new NativeBridgeError('E_CANCELLED', 'Page unloaded'));
+          });
+        });
+        window._pendingByType = {};
+
+        // 위치 추적은 페이지 단위이므로 네이티브 구독도 중지
+        Object.keys(_locationWatches).forEach(function(watchId) {
+          sendToNative({ type: 'clearWatch', action: 'clearWatch', data: { watchId: watchId } });
+        });
+        _locationWatches = {};
+        _pendingWatchPositions = {};
+      });
+
       // NativeBridge 인터페이스 (레거시 호환용 FlutterBridge도 유지)
+      // 요청 메서드는 마지막 인자로 options({ timeoutMs, signal })를 받음
       var bridge = {
+        // 브릿지 프로토콜 버전
+        protocolVersion: ${BRIDGE_PROTOCOL_VERSION},
+
         // postMessage - RN WebView로 메시지 전송
+        // requestId가 없으면 타입 기반 응답을 순서대로 받는 promise 반환
         postMessage: function(messageString) {
           try {
             var message = JSON.parse(messageString);
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
+            var result = message.requestId ? undefined : legacyRequest(message.action || message.type);
+            sendToNative(message);
+            return result;
           } catch (e) {
             console.error('[NativeBridge] postMessage error:', e);
           }
         },
 
-        // 이미지 피커 표시 (액션시트)
-        showImagePicker: function() {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'showImagePicker',
-              type: 'showImagePicker',
-              requestId: requestId
-            }));
-          });
+        // 네이티브 이벤트 구독 (해제 함수 반환)
+        on: function(event, listener) {
+          var listeners = window._nativeEventListeners[event] = window._nativeEventListeners[event] || [];
+          if (listeners.indexOf(listener) === -1) {
+            listeners.push(listener);
+          }
+          return function() {
+            bridge.off(event, listener);
+          };
         },
 
-        // 이미지 선택 (source 지정)
-        pickImage: function(source) {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'pickImage',
-              type: 'pickImage',
-              requestId: requestId,
-              source: source
-            }));
-          });
-        },
+        // 네이티브 이벤트 구독 해제
+        off: function(event, listener) {
+          var listeners = window._nativeEventListeners[event];
+          if (!listeners) return;
 
-        // 카메라로 촬영
-        pickImageFromCamera: function() {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'pickImageFromCamera',
-              type: 'pickImageFromCamera',
-              requestId: requestId
-            }));
-          });
+          var index = listeners.indexOf(listener);
+          if (index !== -1) {
+            listeners.splice(index, 1);
+          }
         },
 
-        // 갤러리에서 선택
-        pickImageFromGallery: function() {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'pickImageFromGallery',
-              type: 'pickImageFromGallery',
-              requestId: requestId
-            }));
-          });
+        // 웹 측 상태가 필요한 메서드 (나머지는 아래 BRIDGE_METHODS 테이블로 생성)
+        // 위치 추적 시작 - listener(position) 호출, watchId 반환
+        // 모든 추적의 위치 변경은 on('locationChange', ...)로도 받을 수 있음
+        watchPosition: function(listener, options) {
+          options = options || {};
+          return request('watchPosition', { data: withoutCallOptions(options) }, options, INTERACTIVE_TIMEOUT_MS)
+            .then(function(result) {
+              var pendingPosition = _pendingWatchPositions[result.watchId];
+              delete _pendingWatchPositions[result.watchId];
+              _locationWatches[result.watchId] = listener;
+              if (pendingPosition && typeof listener === 'function') {
+                listener(pendingPosition);
+              }
+              return result.watchId;
+            });
         },
 
-        // 권한 확인
-        checkPermission: function(permissionType) {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'checkPermission',
-              type: 'checkPermission',
-              requestId: requestId,
-              data: { type: permissionType, permissionType: permissionType }
-            }));
-          });
-        },
+        // 위치 추적 중지
+        clearWatch: function(watchId) {
+          delete _locationWatches[watchId];
+          delete _pendingWatchPositions[watchId];
+          sendToNative({ type: 'clearWatch', action: 'clearWatch', data: { watchId: watchId } });
+        }
+      };
 
-        // FCM 토큰 요청
-        getFcmToken: function() {
-          return new Promise(function(resolve, reject) {
-            var requestId = generateRequestId();
-            window._pendingRequests[requestId] = { resolve: resolve, reject: reject };
-
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              action: 'getFcmToken',
-              type: 'getFcmToken',
-              requestId: requestId
-            }));
+      // 메서드 테이블로 NativeBridge 메서드 생성 (src/bridge/methods.ts)
+      // 요청 메서드: (...params, options) → Promise, fire 메서드: (...params) → 전송만
+      function createMethod(spec) {
+        return function() {
+          var args = arguments;
+          var fields = {};
+          var data = {};
+          var hasData = false;
+
+          spec.params.forEach(function(target, index) {
+            if (target === 'source') {
+              fields.source = args[index];
+            } else if (target === 'data') {
+              data = Object.assign(data, args[index]);
+              hasData = true;
+            } else {
+              target.forEach(function(key) {
+                data[key] = args[index];
+              });
+              hasData = true;
+            }
           });
-        },
 
-        // 로그인 성공 알림 (FCM 토큰 서버 동기화용)
-        notifyLoginSuccess: function(accessToken) {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            action: 'notifyLoginSuccess',
-            type: 'notifyLoginSuccess',
-            data: { accessToken: accessToken }
-          }));
-        },
+          var hasOptions = args[spec.params.length] !== undefined && args[spec.params.length] !== null;
+          var options = hasOptions ? args[spec.params.length] : {};
+          var callOptions = options;
+          if (spec.options) {
+            var optionData = spec.options.fields === 'all' ? withoutCallOptions(options) : {};
+            if (spec.options.fields !== 'all') {
+              spec.options.fields.forEach(function(key) {
+                optionData[key] = options[key];
+              });
+            }
+            if (spec.options.forwardTimeout) {
+              optionData.timeoutMs = options.timeoutMs;
+              callOptions = { signal: options.signal };
+            }
+            // options 인자 없이 호출할 때만 data를 보내지 않음 (pickImage(source)는 레거시 base64 응답 유지)
+            // 호출 옵션(signal/timeoutMs)만 넘겨도 options 인자가 있으면 빈 data 전송
+            if (hasOptions || Object.keys(optionData).length > 0) {
+              data = Object.assign(data, optionData);
+              hasData = true;
+            }
+          }
 
-        // 로그아웃 알림
-        notifyLogout: function() {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            action: 'notifyLogout',
-            type: 'notifyLogout'
-          }));
-        },
+          if (hasData) {
+            fields.data = data;
+          }
 
-        // 파일 다운로드
-        downloadFile: function(url, fileName) {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            action: 'downloadFile',
-            type: 'downloadFile',
-            data: { url: url, fileName: fileName }
-          }));
-        },
+          if (spec.mode === 'fire') {
+            sendToNative(Object.assign({ action: spec.action, type: spec.action }, fields));
+            return;
+          }
 
-        // 외부 링크 열기
-        openExternalLink: function(url) {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            action: 'openExternalLink',
-            type: 'openExternalLink',
-            data: { url: url }
-          }));
-        },
+          var defaultTimeoutMs = spec.timeout === 'interactive' ? INTERACTIVE_TIMEOUT_MS : DEFAULT_TIMEOUT_MS;
+          return request(spec.action, fields, callOptions, defaultTimeoutMs);
+        };
+      }
 
-        // 콘텐츠 공유
-        shareContent: function(title, message, url) {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            action: 'shareContent',
-            type: 'shareContent',
-            data: { title: title, message: message, url: url }
-          }));
-        }
-      };
+      ${JSON.stringify(getInjectedMethodSpecs())}.forEach(function(spec) {
+        bridge[spec.action] = createMethod(spec);
+      });
 
       // NativeBridge와 FlutterBridge 둘 다 등록 (레거시 호환)
       window.NativeBridge = bridge;
@@ -364,16 +941,22 @@ export const generateInjectedJavaScript = (): string => {
       }
 
       // 타입 기반 응답 핸들러 (기존 호환)
-      window.handleNativeResponseByType = function(type, result) {
+      // 같은 응답 타입의 대기 요청 중 가장 오래된 요청에 전달 (FIFO)
+      // 실패 시 result는 null, error({ code, message })는 추가 인자/이벤트 detail로만 전달
+      window.handleNativeResponseByType = function(type, result, error) {
         console.log('[NativeBridge] Response by type:', type);
 
-        // 타입별로 대기 중인 요청 찾기
-        for (var requestId in window._pendingRequests) {
-          var pending = window._pendingRequests[requestId];
-          delete window._pendingRequests[requestId];
-          pending.resolve(result);
-          break;
+        var queue = window._pendingByType[type];
+        if (queue && queue.length > 0) {
+          // resolve가 타이머 해제 및 큐 정리까지 처리
+          queue[0].resolve(result);
+        } else {
+          console.warn('[NativeBridge] No pending request for response type:', type);
         }
+
+        window.dispatchEvent(new CustomEvent('NativeBridgeResponse', {
+          detail: { type: type, result: result, error: error || null }
+        }));
       };
 
       // 브릿지 준비 완료 이벤트 (레거시 호환용 FlutterBridgeReady도 유지)
@@ -388,116 +971,11 @@ export const generateInjectedJavaScript = (): string => {
         window.onFlutterBridgeReady();
       }
 
+      // RN에 문서 식별자 전달 (큐에 남은 이전 문서 응답 정리 및 전달 시작)
+      sendToNative({ type: '${BRIDGE_READY_MESSAGE_TYPE}', action: '${BRIDGE_READY_MESSAGE_TYPE}' });
+
       console.log('[WebViewBridge] NativeBridge initialized (RN)');
     })();
     true;
   `;
 };
-
-/**
- * WebView 메시지 핸들러 타입
- */
-export type MessageHandler = (message: BridgeMessage) => void;
-
-export const createMessageHandler = (handlers: {
-  onShowImagePicker?: () => Promise<ImagePickerResult | null>;
-  onPickImage?: (source: 'camera' | 'gallery') => Promise<ImagePickerResult | null>;
-  onPickImageFromCamera?: () => Promise<ImagePickerResult | null>;
-  onPickImageFromGallery?: () => Promise<ImagePickerResult | null>;
-  onCheckPermission?: (permissionType: 'camera' | 'photos') => Promise<PermissionStatus>;
-  onGetFcmToken?: () => Promise<string | null>;
-  onLoginSuccess?: (accessToken: string) => void;
-  onLogout?: () => void;
-  onDownloadFile?: (url: string, fileName: string) => void;
-  onOpenExternalLink?: (url: string) => void;
-  onShareContent?: (title: string, message: string, url: string) => void;
-}): MessageHandler => {
-  return async (message: BridgeMessage) => {
-    const { type, action, data, source } = message;
-    const actionType = action || type;
-
-    switch (actionType) {
-      case 'showImagePicker':
-        if (handlers.onShowImagePicker) {
-          const result = await handlers.onShowImagePicker();
-          return { type: 'imagePickerResult', result };
-        }
-        break;
-
-      case 'pickImage':
-        if (handlers.onPickImage && source) {
-          const result = await handlers.onPickImage(source);
-          return { type: 'pickImageResult', result };
-        }
-        break;
-
-      case 'pickImageFromCamera':
-        if (handlers.onPickImageFromCamera) {
-          const result = await handlers.onPickImageFromCamera();
-          return { type: 'cameraResult', result };
-        }
-        break;
-
-      case 'pickImageFromGallery':
-        if (handlers.onPickImageFromGallery) {
-          const result = await handlers.onPickImageFromGallery();
-          return { type: 'galleryResult', result };
-        }
-        break;
-
-      case 'checkPermission':
-        if (handlers.onCheckPermission && data) {
-          const permType = (data as { permissionType?: string; type?: string }).permissionType ||
-            (data as { type?: string }).type;
-          if (permType) {
-            const result = await handlers.onCheckPermission(permType as 'camera' | 'photos');
-            return { type: 'permissionResult', result };
-          }
-        }
-        break;
-
-      case 'getFcmToken':
-        if (handlers.onGetFcmToken) {
-          const result = await handlers.onGetFcmToken();
-          return { type: 'fcmTokenResult', result };
-        }
-        break;
-
-      case 'notifyLoginSuccess':
-        if (handlers.onLoginSuccess && data) {
-          const { accessToken } = data as { accessToken: string };
-          handlers.onLoginSuccess(accessToken);
-        }
-        break;
-
-      case 'notifyLogout':
-        if (handlers.onLogout) {
-          handlers.onLogout();
-        }
-        break;
-
-      case 'downloadFile':
-        if (handlers.onDownloadFile && data) {
-          const { url, fileName } = data as { url: string; fileName: string };
-          handlers.onDownloadFile(url, fileName);
-        }
-        break;
-
-      case 'openExternalLink':
-        if (handlers.onOpenExternalLink && data) {
-          const { url } = data as { url: string };
-          handlers.onOpenExternalLink(url);
-        }
-        break;
-
-      case 'shareContent':
-        if (handlers.onShareContent && data) {
-          const { title, message, url } = data as { title: string; message: string; url: string };
-          handlers.onShareContent(title, message, url);
-        }
-        break;
-    }
-
-    return null;
-  };
-};
@@ -0,0 +1,561 @@
+// 자동 생성 파일 - 직접 수정하지 마세요.
+// 생성: npm run bridge:types (src/bridge/protocol.ts, src/bridge/methods.ts)
+
+/**
+ * Bridge Protocol - RN ↔ 웹 브릿지 프로토콜 정의
+ * 모든 액션의 요청/응답 payload 타입과 프로토콜 버전을 한 곳에서 관리합니다.
+ *
+ * 액션을 추가/변경하면 BRIDGE_PROTOCOL_VERSION을 올려 웹이 getCapabilities로
+ * 설치된 앱 빌드의 지원 범위를 판단할 수 있도록 합니다.
+ *
+ * 웹용 선언 파일(types/native-bridge.d.ts)이 이 파일에서 생성되므로 import 없이 타입만 정의하고,
+ * 변경 후에는 `npm run bridge:types`를 실행합니다.
+ */
+export declare const BRIDGE_PROTOCOL_VERSION = 18;
+export type ImageSource = 'camera' | 'gallery';
+export type ImageTransferMode = 'handle' | 'base64';
+export type PermissionType = 'camera' | 'photos' | 'location' | 'notifications' | 'microphone';
+export interface ImagePickerResult {
+    handle: string;
+    base64?: string;
+    mimeType: string;
+    fileName: string;
+    path: string;
+    size: number;
+    width: number;
+    height: number;
+}
+export type ImageCropShape = 'circle' | 'rect' | 'none';
+export interface ImagePickerLabels {
+    title?: string;
+    choose?: string;
+    cancel?: string;
+}
+export interface ImagePickerOptions {
+    transfer?: ImageTransferMode;
+    cropShape?: ImageCropShape;
+    aspectRatio?: [number, number];
+    width?: number;
+    height?: number;
+    quality?: number;
+    multiple?: boolean;
+    maxCount?: number;
+    maxSizeMB?: number;
+    labels?: ImagePickerLabels;
+}
+export interface PickImageRequest extends ImagePickerOptions {
+    source: ImageSource;
+    transfer: ImageTransferMode;
+}
+export interface VideoThumbnail {
+    handle: string;
+    base64: string;
+    mimeType: string;
+    width: number;
+    height: number;
+}
+export interface VideoPickerResult {
+    handle: string;
+    mimeType: string;
+    fileName: string;
+    path: string;
+    size: number;
+    width: number;
+    height: number;
+    duration: number;
+    thumbnail: VideoThumbnail | null;
+}
+export interface VideoPickerOptions {
+    maxDurationSec?: number;
+    maxSizeMB?: number;
+}
+export interface PickVideoRequest extends VideoPickerOptions {
+    source: ImageSource;
+}
+export interface UploadFileRequest {
+    handle: string;
+    url: string;
+    fields?: Record<string, string>;
+    headers?: Record<string, string>;
+    fieldName?: string;
+    method?: 'POST' | 'PUT' | 'PATCH';
+}
+export interface UploadFileResponse {
+    status: number;
+    body: string;
+    headers: Record<string, string>;
+}
+export interface ReadFileChunkRequest {
+    handle: string;
+    offset: number;
+    length?: number;
+}
+export interface ReadFileChunkResponse {
+    data: string;
+    offset: number;
+    length: number;
+    size: number;
+    eof: boolean;
+}
+export type PermissionState = 'granted' | 'limited' | 'denied' | 'undetermined';
+export interface PermissionStatus {
+    status: PermissionState;
+    granted: boolean;
+    denied: boolean;
+    permanentlyDenied: boolean;
+    limited: boolean;
+    canAskAgain: boolean;
+}
+export interface CheckPermissionRequest {
+    type?: PermissionType;
+    permissionType?: PermissionType;
+}
+export type LocationAccuracyLevel = 'low' | 'balanced' | 'high';
+export interface GeoPosition {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    altitude: number | null;
+    altitudeAccuracy: number | null;
+    heading: number | null;
+    speed: number | null;
+    timestamp: number;
+}
+export interface GetCurrentPositionRequest {
+    accuracy?: LocationAccuracyLevel;
+    timeoutMs?: number;
+    maxAgeMs?: number;
+}
+export interface WatchPositionRequest {
+    accuracy?: LocationAccuracyLevel;
+    distanceInterval?: number;
+    timeIntervalMs?: number;
+}
+export interface DownloadFileRequest {
+    url: string;
+    fileName: string;
+}
+export interface ShareContentRequest {
+    title: string;
+    message: string;
+    url: string;
+}
+export interface ShareKakaoRequest {
+    title: string;
+    description?: string;
+    imageUrl?: string;
+    webUrl: string;
+    mobileWebUrl?: string;
+    buttonTitle?: string;
+    executionParams?: Record<string, string>;
+}
+export interface ShareKakaoResponse {
+    success: boolean;
+    fallback?: boolean;
+}
+export type DeepLinkSource = 'cold' | 'warm' | 'push' | 'kakao';
+export type DeepLinkOutcome = 'navigated' | 'held' | 'rejected' | 'browser' | 'unsupported';
+export interface DeepLinkHistoryEntry {
+    url: string | null;
+    source: DeepLinkSource;
+    receivedAt: number;
+    path: string | null;
+    outcome: DeepLinkOutcome;
+    campaign?: Record<string, string>;
+}
+export interface GetDeepLinkHistoryRequest {
+    limit?: number;
+    since?: number;
+}
+export interface GetDeepLinkHistoryResponse {
+    entries: DeepLinkHistoryEntry[];
+}
+export type NotificationCategory = 'reservations' | 'chat' | 'community' | 'marketing' | 'system';
+export interface NotificationCategoryPreference {
+    category: NotificationCategory;
+    name: string;
+    description: string;
+    enabled: boolean;
+    systemBlocked: boolean;
+}
+export interface NotificationPreferencesResponse {
+    categories: NotificationCategoryPreference[];
+}
+export interface SetNotificationPreferenceRequest {
+    category: NotificationCategory;
+    enabled: boolean;
+}
+export interface InboxNotification {
+    id: string;
+    title: string | null;
+    body: string | null;
+    data: Record<string, unknown>;
+    category: NotificationCategory;
+    receivedAt: number;
+    read: boolean;
+}
+export interface GetNotificationsRequest {
+    unreadOnly?: boolean;
+    limit?: number;
+}
+export interface GetNotificationsResponse {
+    notifications: InboxNotification[];
+    unreadCount: number;
+}
+export interface NotificationIdsRequest {
+    ids?: string[];
+}
+export interface BridgeCapabilities {
+    platform: string;
+    appVersion: string;
+    protocolVersion: number;
+    actions: BridgeActionName[];
+}
+/**
+ * 액션별 요청/응답 payload 정의
+ * request: 검증된 웹 → RN 요청 payload (data 및 레거시 최상위 필드), response: RN → 웹 응답의 data
+ */
+export interface BridgeActionMap {
+    showImagePicker: {
+        request: undefined;
+        response: {
+            useWebUI: true;
+        };
+    };
+    pickImage: {
+        request: PickImageRequest;
+        response: ImagePickerResult | ImagePickerResult[];
+    };
+    pickImageFromCamera: {
+        request: undefined;
+        response: ImagePickerResult;
+    };
+    pickVideo: {
+        request: PickVideoRequest;
+        response: VideoPickerResult;
+    };
+    pickImageFromGallery: {
+        request: undefined;
+        response: ImagePickerResult;
+    };
+    checkPermission: {
+        request: CheckPermissionRequest;
+        response: PermissionStatus;
+    };
+    requestPermission: {
+        request: CheckPermissionRequest;
+        response: PermissionStatus;
+    };
+    openAppSettings: {
+        request: undefined;
+        response: {
+            opened: boolean;
+        };
+    };
+    getCurrentPosition: {
+        request: GetCurrentPositionRequest;
+        response: GeoPosition;
+    };
+    watchPosition: {
+        request: WatchPositionRequest;
+        response: {
+            watchId: string;
+        };
+    };
+    clearWatch: {
+        request: {
+            watchId: string;
+        };
+        response: {
+            cleared: boolean;
+        };
+    };
+    getFcmToken: {
+        request: undefined;
+        response: string;
+    };
+    notifyLoginSuccess: {
+        request: {
+            accessToken: string;
+        };
+        response: undefined;
+    };
+    notifyLogout: {
+        request: undefined;
+        response: undefined;
+    };
+    downloadFile: {
+        request: DownloadFileRequest;
+        response: undefined;
+    };
+    openExternalLink: {
+        request: {
+            url: string;
+        };
+        response: undefined;
+    };
+    shareContent: {
+        request: ShareContentRequest;
+        response: undefined;
+    };
+    shareKakao: {
+        request: ShareKakaoRequest;
+        response: ShareKakaoResponse;
+    };
+    getCapabilities: {
+        request: undefined;
+        response: BridgeCapabilities;
+    };
+    cancelRequest: {
+        request: {
+            requestId: string;
+        };
+        response: {
+            cancelled: boolean;
+        };
+    };
+    uploadFile: {
+        request: UploadFileRequest;
+        response: UploadFileResponse;
+    };
+    readFileChunk: {
+        request: ReadFileChunkRequest;
+        response: ReadFileChunkResponse;
+    };
+    releaseFile: {
+        request: {
+            handle: string;
+        };
+        response: {
+            released: boolean;
+        };
+    };
+    getDeepLinkHistory: {
+        request: GetDeepLinkHistoryRequest;
+        response: GetDeepLinkHistoryResponse;
+    };
+    getNotificationPreferences: {
+        request: undefined;
+        response: NotificationPreferencesResponse;
+    };
+    setNotificationPreference: {
+        request: SetNotificationPreferenceRequest;
+        response: NotificationPreferencesResponse;
+    };
+    getNotifications: {
+        request: GetNotificationsRequest;
+        response: GetNotificationsResponse;
+    };
+    markRead: {
+        request: NotificationIdsRequest;
+        response: {
+            unreadCount: number;
+        };
+    };
+    clearNotifications: {
+        request: NotificationIdsRequest;
+        response: {
+            unreadCount: number;
+        };
+    };
+}
+export type BridgeActionName = keyof BridgeActionMap;
+export type BridgeRequestPayload<A extends BridgeActionName> = BridgeActionMap[A]['request'];
+export type BridgeResponsePayload<A extends BridgeActionName> = BridgeActionMap[A]['response'];
+/**
+ * 액션별 타입 기반 응답 이름 (requestId 없는 레거시 호출용)
+ * null이면 응답 없이 실행만 하는 액션
+ */
+export declare const BRIDGE_ACTION_RESPONSE_TYPES: Record<BridgeActionName, string | null>;
+export interface AppStateChangeEvent {
+    state: 'active' | 'background';
+    timestamp: number;
+}
+export interface NotificationReceivedEvent {
+    id: string;
+    title: string | null;
+    body: string | null;
+    data: Record<string, unknown>;
+    presentation: 'system' | 'inPage';
+}
+export interface DownloadProgressEvent {
+    url: string;
+    fileName: string;
+    loaded: number;
+    total: number;
+    progress: number;
+}
+export interface UploadProgressEvent {
+    handle: string;
+    url: string;
+    loaded: number;
+    total: number;
+    progress: number;
+}
+export interface NetworkChangeEvent {
+    isConnected: boolean;
+    isInternetReachable: boolean | null;
+    type: string;
+}
+export interface DeepLinkReceivedEvent {
+    url: string | null;
+    path: string;
+    source: 'link' | 'push';
+    held?: boolean;
+    replayed?: boolean;
+}
+export interface LocationChangeEvent {
+    watchId: string;
+    position: GeoPosition;
+}
+/**
+ * 네이티브 → 웹 이벤트 정의 (NativeBridge.on/off로 구독)
+ */
+export interface BridgeEventMap {
+    appStateChange: AppStateChangeEvent;
+    notificationReceived: NotificationReceivedEvent;
+    downloadProgress: DownloadProgressEvent;
+    uploadProgress: UploadProgressEvent;
+    networkChange: NetworkChangeEvent;
+    deepLinkReceived: DeepLinkReceivedEvent;
+    locationChange: LocationChangeEvent;
+}
+export type BridgeEventName = keyof BridgeEventMap;
+/**
+ * 브릿지 에러 코드 (실패 응답의 code)
+ * - E_CANCELLED: 사용자/웹 취소
+ * - E_PERMISSION_DENIED: 권한 거부 (다시 요청 가능)
+ * - E_PERMISSION_BLOCKED: 권한 영구 거부 (설정 화면 안내 필요)
+ * - E_INVALID_ARGS: 잘못된 요청 payload
+ * - E_UNSUPPORTED: 지원하지 않는 액션/기기 (시뮬레이터 카메라, 위치 서비스 꺼짐 등)
+ * - E_TIMEOUT: 제한 시간 초과
+ * - E_NETWORK: 네트워크 오류
+ * - E_LIMIT_EXCEEDED: 파일 크기/길이 제한 초과
+ * - E_FORBIDDEN_ORIGIN: 허용되지 않은 페이지에서 호출
+ * - E_INTERNAL: 그 외 네이티브 오류
+ */
+export type BridgeErrorCode = 'E_CANCELLED' | 'E_PERMISSION_DENIED' | 'E_PERMISSION_BLOCKED' | 'E_INVALID_ARGS' | 'E_UNSUPPORTED' | 'E_TIMEOUT' | 'E_NETWORK' | 'E_LIMIT_EXCEEDED' | 'E_FORBIDDEN_ORIGIN' | 'E_INTERNAL';
+export declare const BRIDGE_READY_MESSAGE_TYPE = "_bridgeReady";
+export declare const BRIDGE_ACK_MESSAGE_TYPE = "_ackMessages";
+export interface BridgeAckPayload {
+    ids: string[];
+    stale: string[];
+}
+export interface BridgeMessage<A extends BridgeActionName = BridgeActionName> {
+    type: A | string;
+    action?: A | string;
+    requestId?: string;
+    pageId?: string;
+    data?: BridgeRequestPayload<A>;
+    source?: ImageSource;
+    callbackId?: string;
+}
+export interface BridgeResponse<A extends BridgeActionName = BridgeActionName> {
+    requestId: string;
+    success: boolean;
+    data: BridgeResponsePayload<A> | null;
+    error?: string;
+    code?: BridgeErrorCode;
+}
+/**
+ * 타입 기반 응답(레거시) 실패 정보
+ * 결과는 기존처럼 null로 전달하고, 에러는 handleNativeResponseByType의 세 번째 인자와
+ * NativeBridgeResponse 이벤트 detail.error로만 추가 전달 (기존 웹 빌드는 무시)
+ */
+export interface BridgeTypedResponseError {
+    code: BridgeErrorCode;
+    message: string;
+}
+
+// 요청 메서드 공통 호출 옵션
+export interface BridgeCallOptions {
+  /** 응답 대기 시간 (초과 시 E_TIMEOUT으로 reject) */
+  timeoutMs?: number;
+  /**
+   * abort 시 E_CANCELLED로 reject
+   * 이미 열린 네이티브 피커/권한 팝업은 닫히지 않으며, 사용자가 선택한 결과만 폐기됨
+   */
+  signal?: AbortSignal;
+}
+
+// 요청 실패 에러 (code는 BridgeErrorCode 참고)
+export interface NativeBridgeError extends Error {
+  code: BridgeErrorCode;
+}
+
+export interface NativeBridge {
+  /** 브릿지 프로토콜 버전 */
+  readonly protocolVersion: number;
+  /** 레거시 메시지 전송 (requestId가 없으면 타입 기반 응답 promise 반환) */
+  postMessage(message: string): Promise<unknown> | undefined;
+  /** 네이티브 이벤트 구독 (해제 함수 반환) */
+  on<E extends BridgeEventName>(event: E, listener: (payload: BridgeEventMap[E]) => void): () => void;
+  /** 네이티브 이벤트 구독 해제 */
+  off<E extends BridgeEventName>(event: E, listener: (payload: BridgeEventMap[E]) => void): void;
+  /** 이미지 피커 표시 (웹 BottomModal UI 사용 안내) */
+  showImagePicker(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'showImagePicker'>>;
+  /** 이미지 선택 (transfer 기본값 'handle', options 인자 없이 호출하면 레거시 호환으로 base64 포함, multiple이면 배열 반환) */
+  pickImage(source: ImageSource, options?: ImagePickerOptions & BridgeCallOptions): Promise<BridgeResponsePayload<'pickImage'>>;
+  /** 카메라로 촬영 (레거시, base64 포함) */
+  pickImageFromCamera(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'pickImageFromCamera'>>;
+  /** 갤러리에서 선택 (레거시, base64 포함) */
+  pickImageFromGallery(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'pickImageFromGallery'>>;
+  /** 동영상 촬영/선택 (파일 핸들과 재생 시간/해상도/크기/썸네일 반환, 촬영은 카메라/마이크 권한 필요) */
+  pickVideo(source: ImageSource, options?: VideoPickerOptions & BridgeCallOptions): Promise<BridgeResponsePayload<'pickVideo'>>;
+  /** 권한 확인 (팝업 없음) */
+  checkPermission(permissionType: PermissionType, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'checkPermission'>>;
+  /** 권한 요청 (시스템 팝업), permanentlyDenied면 openAppSettings로 안내 */
+  requestPermission(permissionType: PermissionType, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'requestPermission'>>;
+  /** 앱 설정 화면 열기 */
+  openAppSettings(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'openAppSettings'>>;
+  /** 현재 위치 조회 (timeoutMs는 위치 수신 제한 시간, 권한 팝업 대기는 포함하지 않음) */
+  getCurrentPosition(options?: GetCurrentPositionRequest & BridgeCallOptions): Promise<BridgeResponsePayload<'getCurrentPosition'>>;
+  /** 위치 추적 시작 - listener(position) 호출, watchId 반환 (on('locationChange')로도 수신 가능) */
+  watchPosition(listener: (position: GeoPosition) => void, options?: WatchPositionRequest & BridgeCallOptions): Promise<string>;
+  /** 위치 추적 중지 */
+  clearWatch(watchId: string): void;
+  /** FCM 토큰 요청 (권한 팝업이 뜰 수 있음) */
+  getFcmToken(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'getFcmToken'>>;
+  /** 로그인 성공 알림 (FCM 토큰 서버 동기화용) */
+  notifyLoginSuccess(accessToken: string): void;
+  /** 로그아웃 알림 */
+  notifyLogout(): void;
+  /** 파일 다운로드 (진행률은 downloadProgress 이벤트) */
+  downloadFile(url: string, fileName: string): void;
+  /** 외부 링크 열기 (인앱 브라우저) */
+  openExternalLink(url: string): void;
+  /** 콘텐츠 공유 (시스템 공유 시트) */
+  shareContent(title: string, message: string, url: string): void;
+  /** 카카오톡 공유 (실패 시 시스템 공유 시트로 대체) */
+  shareKakao(content: ShareKakaoRequest, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'shareKakao'>>;
+  /** 앱 기능 정보 요청 (앱 버전, 프로토콜 버전, 지원 액션 목록) */
+  getCapabilities(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'getCapabilities'>>;
+  /** 파일 핸들 업로드 (multipart/form-data, 진행률은 uploadProgress 이벤트) */
+  uploadFile(handle: string, url: string, fields?: Record<string, string>, headers?: Record<string, string>, options?: Pick<UploadFileRequest, 'fieldName' | 'method'> & BridgeCallOptions): Promise<BridgeResponsePayload<'uploadFile'>>;
+  /** 파일 핸들 청크 읽기 (base64) */
+  readFileChunk(handle: string, offset: number, length?: number, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'readFileChunk'>>;
+  /** 파일 핸들 해제 (임시 파일 삭제, 해제하지 않으면 미사용 30분 후 자동 해제) */
+  releaseFile(handle: string, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'releaseFile'>>;
+  /** 딥링크 수신 기록 조회 (최신순, 캠페인 utm 파라미터 포함) */
+  getDeepLinkHistory(options?: GetDeepLinkHistoryRequest & BridgeCallOptions): Promise<BridgeResponsePayload<'getDeepLinkHistory'>>;
+  /** 카테고리별 알림 수신 설정 조회 (예약, 채팅, 커뮤니티, 마케팅, 시스템) */
+  getNotificationPreferences(options?: BridgeCallOptions): Promise<BridgeResponsePayload<'getNotificationPreferences'>>;
+  /** 카테고리 알림 수신 설정 변경 (로그인 상태면 서버에도 동기화, 변경 후 전체 설정 반환) */
+  setNotificationPreference(category: NotificationCategory, enabled: boolean, options?: BridgeCallOptions): Promise<BridgeResponsePayload<'setNotificationPreference'>>;
+  /** 알림 보관함 조회 (최신순, 읽지 않은 수 포함) */
+  getNotifications(options?: GetNotificationsRequest & BridgeCallOptions): Promise<BridgeResponsePayload<'getNotifications'>>;
+  /** 알림 읽음 처리 (ids 생략 시 전체), 앱 배지는 읽지 않은 수로 갱신 */
+  markRead(ids?: string[], options?: BridgeCallOptions): Promise<BridgeResponsePayload<'markRead'>>;
+  /** 알림 보관함 삭제 (ids 생략 시 전체) */
+  clearNotifications(ids?: string[], options?: BridgeCallOptions): Promise<BridgeResponsePayload<'clearNotifications'>>;
+}
+
+declare global {
+  interface Window {
+    NativeBridge?: NativeBridge;
+    FlutterBridge?: NativeBridge;
+    NativeBridgeError?: new (code: BridgeErrorCode, message: string) => NativeBridgeError;
+    isRNWebView?: boolean;
+    isFlutterWebView?: boolean;
+  }
+}